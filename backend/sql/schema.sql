@@ -5,5 +5,23 @@ CREATE TABLE IF NOT EXISTS sensor_readings (
   ph FLOAT,
   temperature FLOAT,
   battery FLOAT,
-  created_at TIMESTAMP DEFAULT NOW()
+  created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC') -- UTC
 );
+
+-- One reading per device and time (fails while duplicates exist; see READINGS_DEDUPE in src/schema.ts)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_readings_device_created_at
+ON sensor_readings(device_id, created_at);
+
+ALTER TABLE sensor_readings
+  ADD COLUMN IF NOT EXISTS source TEXT,
+  ADD COLUMN IF NOT EXISTS source_entry_id BIGINT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_readings_source_entry
+ON sensor_readings(device_id, source, source_entry_id) WHERE source_entry_id IS NOT NULL;
+
+-- Metrics beyond the original four (catalog in src/metrics.ts)
+ALTER TABLE sensor_readings
+  ADD COLUMN IF NOT EXISTS dissolved_oxygen DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS turbidity DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS water_level DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS ec DOUBLE PRECISION;
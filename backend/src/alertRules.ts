@@ -0,0 +1,268 @@
+import { pool } from "./db";
+import { METRIC_CATALOG, unitSuffix } from "./metrics";
+
+/**
+ * Alert rules: one row per (device, alert type).
+ * A rule compares one metric of a reading against a value, e.g. temperature > 33 => critical.
+ * Several tiers per metric are just several rules with different types
+ * (e.g. temperature_high / temperature_critical).
+ *
+ * Trend rules compare the recent history of the metric instead of the reading itself:
+ * - rate:   regression slope over the last window_minutes, in units per hour (salinity > 2 ppt/h)
+ * - change: the same slope expressed as change across the window (pH < -0.5 within 30 min)
+ */
+export type AlertRule = {
+  id?: string;
+  device_id: string;
+  type: string;
+  kind: RuleKind;
+  metric: string;
+  operator: Operator;
+  value: number;
+  clear_value: number | null; // hysteresis: once breached, clears only past this value
+  severity: "warning" | "critical";
+  duration_minutes: number; // breach must last N minutes
+  consecutive_readings: number; // breach must last N readings in a row
+  window_minutes: number; // history window of rate / change rules
+  enabled: boolean;
+};
+
+export type RuleKind = "threshold" | "rate" | "change";
+
+export const RULE_KINDS: RuleKind[] = ["threshold", "rate", "change"];
+
+export type Operator = ">" | ">=" | "<" | "<=";
+
+export const OPERATORS: Operator[] = [">", ">=", "<", "<="];
+
+// Every catalog metric can have rules; unit is the suffix used in messages (" ppt", "°C")
+export const METRICS: Record<string, { label: string; unit: string }> = Object.fromEntries(
+  METRIC_CATALOG.map((m) => [m.key, { label: m.name, unit: unitSuffix(m.unit) }])
+);
+
+// Used for devices that have never been configured
+export const DEFAULT_RULES: Omit<AlertRule, "device_id">[] = [
+  rule("salinity_high", "salinity", ">", 10),
+  rule("ph_low", "ph", "<", 6.5),
+  rule("ph_high", "ph", ">", 8.5),
+  rule("battery_low", "battery", "<", 20),
+  rule("battery_critical", "battery", "<", 10, "critical")
+];
+
+function rule(
+  type: string,
+  metric: string,
+  operator: Operator,
+  value: number,
+  severity: AlertRule["severity"] = "warning"
+): Omit<AlertRule, "device_id"> {
+  return {
+    type,
+    kind: "threshold",
+    metric,
+    operator,
+    value,
+    clear_value: null,
+    severity,
+    duration_minutes: 0,
+    consecutive_readings: 1,
+    window_minutes: 60,
+    enabled: true
+  };
+}
+
+export function isAbove(op: Operator) {
+  return op === ">" || op === ">=";
+}
+
+export function compare(value: number, op: Operator, threshold: number) {
+  switch (op) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+}
+
+function numOrNull(v: any) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Validate a rule from a request body. Returns an error message or the normalized rule.
+ */
+export function parseRule(body: any): { error: string } | { rule: Omit<AlertRule, "id"> } {
+  const device_id = String(body?.device_id || "").trim();
+  const metric = String(body?.metric || "");
+  const operator = String(body?.operator || "") as Operator;
+  const value = numOrNull(body?.value);
+  const kind = String(body?.kind || "threshold") as RuleKind;
+  const suffix = kind === "threshold" ? (isAbove(operator) ? "high" : "low") : isAbove(operator) ? "rising" : "falling";
+  const type = String(body?.type || "").trim() || `${metric}_${suffix}`;
+  const windowMinutes = numOrNull(body?.window_minutes) ?? 60;
+  const severity = body?.severity === "critical" ? "critical" : "warning";
+
+  if (!device_id) return { error: "device_id is required" };
+  if (!RULE_KINDS.includes(kind)) return { error: `kind must be one of: ${RULE_KINDS.join(", ")}` };
+  if (!METRICS[metric]) return { error: `metric must be one of: ${Object.keys(METRICS).join(", ")}` };
+  if (!OPERATORS.includes(operator)) return { error: `operator must be one of: ${OPERATORS.join(" ")}` };
+  if (value === null) return { error: "value must be a number" };
+  if (windowMinutes <= 0) return { error: "window_minutes must be greater than 0" };
+  if (!/^[a-z0-9_]+$/.test(type) || type === "no_data") {
+    return { error: "type must be lowercase letters, digits or _ (and not no_data)" };
+  }
+
+  return {
+    rule: {
+      device_id,
+      type,
+      kind,
+      metric,
+      operator,
+      value,
+      clear_value: numOrNull(body?.clear_value),
+      severity,
+      duration_minutes: Math.max(0, numOrNull(body?.duration_minutes) ?? 0),
+      consecutive_readings: Math.max(1, numOrNull(body?.consecutive_readings) ?? 1),
+      window_minutes: windowMinutes,
+      enabled: body?.enabled ?? true
+    }
+  };
+}
+
+/**
+ * Thresholds behind the dashboard status of each device, from its enabled threshold rules: the lowest
+ * "salinity above" value and the highest "battery below" value (null when the device has no such rule).
+ */
+export async function statusThresholds(deviceIds: string[]) {
+  const migrated = await pool.query(
+    `SELECT device_id FROM alert_settings WHERE device_id = ANY($1) AND rules_migrated`,
+    [deviceIds]
+  );
+  const stored = await pool.query(
+    `SELECT * FROM alert_rules WHERE device_id = ANY($1) AND enabled AND kind = 'threshold'`,
+    [deviceIds]
+  );
+  const hasRules = new Set(migrated.rows.map((r) => r.device_id));
+
+  const out = new Map<string, { salinity_high: number | null; battery_low: number | null }>();
+  for (const id of deviceIds) {
+    const rules: Omit<AlertRule, "device_id">[] = hasRules.has(id)
+      ? stored.rows.filter((r) => r.device_id === id)
+      : DEFAULT_RULES.filter((r) => r.enabled && r.kind === "threshold");
+    const high = rules.filter((r) => r.metric === "salinity" && isAbove(r.operator)).map((r) => Number(r.value));
+    const low = rules.filter((r) => r.metric === "battery" && !isAbove(r.operator)).map((r) => Number(r.value));
+    out.set(id, {
+      salinity_high: high.length ? Math.min(...high) : null,
+      battery_low: low.length ? Math.max(...low) : null
+    });
+  }
+  return out;
+}
+
+/**
+ * Rules for a device. Devices whose settings were never migrated to rules
+ * (no alert_settings row yet) get DEFAULT_RULES.
+ */
+export async function getRules(deviceId: string): Promise<AlertRule[]> {
+  const s = await pool.query(`SELECT rules_migrated FROM alert_settings WHERE device_id = $1`, [deviceId]);
+  if (!s.rows[0]?.rules_migrated) {
+    return DEFAULT_RULES.map((r) => ({ ...r, device_id: deviceId }));
+  }
+  const r = await pool.query(`SELECT * FROM alert_rules WHERE device_id = $1 ORDER BY metric, type`, [deviceId]);
+  return r.rows;
+}
+
+/**
+ * Rules derived from the legacy per-column settings (salinity_high, ph_low, ...)
+ * and their trigger conditions JSON.
+ */
+function legacyRules(s: any): Omit<AlertRule, "device_id">[] {
+  const out: Omit<AlertRule, "device_id">[] = [];
+  const add = (type: string, metric: string, op: Operator, v: any, severity: AlertRule["severity"] = "warning") => {
+    const value = numOrNull(v);
+    if (value === null) return;
+    const c = (s.conditions || {})[type] || {};
+    out.push({
+      ...rule(type, metric, op, value, severity),
+      clear_value: numOrNull(c.clear),
+      duration_minutes: numOrNull(c.for_minutes) ?? 0,
+      consecutive_readings: numOrNull(c.for_readings) ?? 1
+    });
+  };
+  add("salinity_high", "salinity", ">", s.salinity_high);
+  add("ph_low", "ph", "<", s.ph_low);
+  add("ph_high", "ph", ">", s.ph_high);
+  add("temperature_low", "temperature", "<", s.temperature_low);
+  add("temperature_high", "temperature", ">", s.temperature_high);
+  add("battery_low", "battery", "<", s.battery_low);
+  if (numOrNull(s.battery_low) !== null) add("battery_critical", "battery", "<", 10, "critical");
+  return out;
+}
+
+/**
+ * Make sure the device has persisted rules before they are edited:
+ * existing settings are converted from their legacy columns, new devices get DEFAULT_RULES.
+ */
+export async function ensureDeviceRules(deviceId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`INSERT INTO alert_settings(device_id) VALUES ($1) ON CONFLICT (device_id) DO NOTHING`, [
+      deviceId
+    ]);
+    const s = await client.query(`SELECT * FROM alert_settings WHERE device_id = $1 FOR UPDATE`, [deviceId]);
+    const settings = s.rows[0];
+    if (!settings.rules_migrated) {
+      const hasLegacy = ["salinity_high", "ph_low", "ph_high", "temperature_low", "temperature_high", "battery_low"].some(
+        (k) => settings[k] !== null
+      );
+      const rules = hasLegacy ? legacyRules(settings) : DEFAULT_RULES;
+      for (const r of rules) {
+        await client.query(
+          `INSERT INTO alert_rules(
+              device_id, type, kind, metric, operator, value, clear_value, severity,
+              duration_minutes, consecutive_readings, window_minutes, enabled
+            ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+            ON CONFLICT (device_id, type) DO NOTHING`,
+          [
+            deviceId,
+            r.type,
+            r.kind,
+            r.metric,
+            r.operator,
+            r.value,
+            r.clear_value,
+            r.severity,
+            r.duration_minutes,
+            r.consecutive_readings,
+            r.window_minutes,
+            r.enabled
+          ]
+        );
+      }
+      await client.query(`UPDATE alert_settings SET rules_migrated = TRUE WHERE device_id = $1`, [deviceId]);
+    }
+    await client.query("COMMIT");
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** One-off migration: convert every existing column-based settings row into rules. */
+export async function migrateLegacySettingsToRules() {
+  const r = await pool.query(`SELECT device_id FROM alert_settings WHERE NOT rules_migrated`);
+  for (const row of r.rows) {
+    await ensureDeviceRules(row.device_id);
+  }
+  if (r.rows.length) console.log(`🔁 Migrated alert settings of ${r.rows.length} device(s) to alert rules`);
+}
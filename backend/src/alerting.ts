@@ -0,0 +1,416 @@
+import { pool } from "./db";
+import { enqueueEmail } from "./emailOutbox";
+import { toCsv } from "./csv";
+import { alertEmailContext, renderAlertEmail } from "./emailTemplates";
+import { activeMaintenance, isMuted } from "./maintenance";
+import { enqueueAlertWebhooks } from "./webhooks";
+import { AlertRule, METRICS, compare, getRules, isAbove } from "./alertRules";
+import { READING_METRICS } from "./readings";
+
+// Metric values by catalog key (see metrics.ts). A null / missing metric was not reported: its rules
+// are skipped and their open alerts left as they are
+export type EvaluatePayload = {
+  device_id: string;
+  createdAt?: string;
+} & { [metric: string]: number | null | undefined | string };
+
+// Thresholds live in alert_rules (see alertRules.ts)
+export const DEFAULT_ALERT_SETTINGS = {
+  no_data_minutes: 60,
+  cooldown_minutes: 15,
+  email_to: "",
+  enabled: true,
+  digest_frequency: "off",
+  digest_email_to: "",
+  email_language: "en",
+  escalation_steps: []
+};
+
+function isNumber(v: any): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+export async function getSettings(deviceId: string) {
+  const r = await pool.query(`SELECT * FROM alert_settings WHERE device_id = $1`, [deviceId]);
+  return r.rows[0] || null;
+}
+
+async function shouldCooldown(deviceId: string, type: string, cooldownMinutes: number) {
+  const r = await pool.query(
+    `SELECT created_at FROM alerts WHERE device_id = $1 AND type = $2 ORDER BY created_at DESC LIMIT 1`,
+    [deviceId, type]
+  );
+  const last = r.rows[0]?.created_at ? new Date(r.rows[0].created_at) : null;
+  if (!last) return false;
+  const diffMs = Date.now() - last.getTime();
+  return diffMs < cooldownMinutes * 60 * 1000;
+}
+
+/**
+ * When the device last sent data, as of a reading at `at`: the reading's own time if it has a metric
+ * value. An all-null reading (quality "missing", e.g. a dead probe) is not data: the latest stored
+ * reading with a value counts instead, or the device's first reading if it never sent one.
+ */
+async function lastDataAt(body: EvaluatePayload, at: Date) {
+  if (READING_METRICS.some((m) => isNumber(body[m]))) return at;
+  const r = await pool.query(
+    `SELECT COALESCE(
+       MAX(created_at) FILTER (WHERE ${READING_METRICS.map((m) => `${m} IS NOT NULL`).join(" OR ")}),
+       MIN(created_at)
+     ) AS t
+     FROM sensor_readings
+     WHERE device_id = $1 AND created_at <= $2::timestamptz AT TIME ZONE 'UTC'`,
+    [body.device_id, at]
+  );
+  return r.rows[0].t ? new Date(r.rows[0].t) : at;
+}
+
+/** An open or acknowledged alert of this type: the condition is already reported. */
+async function hasUnresolvedAlert(deviceId: string, type: string) {
+  const r = await pool.query(`SELECT 1 FROM alerts WHERE device_id = $1 AND type = $2 AND status <> 'resolved' LIMIT 1`, [
+    deviceId,
+    type
+  ]);
+  return r.rows.length > 0;
+}
+
+async function createAlert(params: {
+  device_id: string;
+  type: string;
+  severity: "warning" | "critical";
+  message: string;
+  value?: number;
+  threshold?: number;
+  email_to?: string;
+}) {
+  const r = await pool.query(
+    `INSERT INTO alerts(device_id, type, severity, message, value, threshold, email_to)
+     VALUES ($1,$2,$3,$4,$5,$6,$7)
+     RETURNING *`,
+    [
+      params.device_id,
+      params.type,
+      params.severity,
+      params.message,
+      params.value ?? null,
+      params.threshold ?? null,
+      params.email_to ?? null
+    ]
+  );
+  const alert = r.rows[0];
+
+  // Webhook subscribers are notified asynchronously (webhook worker); queueing must not block the alert
+  try {
+    await enqueueAlertWebhooks(alert);
+  } catch (e) {
+    console.error(`Failed to queue webhooks for alert ${alert.id}:`, e);
+  }
+  return alert;
+}
+
+/**
+ * Alert lifecycle: open -> acknowledged -> resolved.
+ * `by` is the username, or "system" for automatic resolution.
+ */
+export async function acknowledgeAlert(id: string, by: string) {
+  const r = await pool.query(
+    `UPDATE alerts SET status = 'acknowledged', acknowledged_at = NOW(), acknowledged_by = $2
+     WHERE id = $1 AND status = 'open'
+     RETURNING *`,
+    [id, by]
+  );
+  return r.rows[0] || null;
+}
+
+export async function resolveAlert(id: string, by: string) {
+  const r = await pool.query(
+    `UPDATE alerts SET status = 'resolved', resolved_at = NOW(), resolved_by = $2
+     WHERE id = $1 AND status <> 'resolved'
+     RETURNING *`,
+    [id, by]
+  );
+  return r.rows[0] || null;
+}
+
+/** Resolve every unresolved alert of this type (the metric is back to normal). */
+async function autoResolveAlerts(deviceId: string, type: string) {
+  const r = await pool.query(
+    `UPDATE alerts SET status = 'resolved', resolved_at = NOW(), resolved_by = 'system'
+     WHERE device_id = $1 AND type = $2 AND status <> 'resolved'
+     RETURNING *`,
+    [deviceId, type]
+  );
+  return r.rows;
+}
+
+/**
+ * Trend value of a rate / change rule: least-squares slope of the metric over the
+ * last window_minutes of sensor_readings (plus the reading being evaluated, which
+ * may not be stored yet). Returns null when there are fewer than 2 points.
+ */
+async function trendValue(deviceId: string, rule: AlertRule, current: number, readingAt: Date) {
+  // rule.metric is validated against METRICS, so it is safe as a column name
+  const r = await pool.query(
+    `SELECT regr_slope(v, EXTRACT(EPOCH FROM t)) AS slope, COUNT(*)::int AS n
+     FROM (
+       SELECT ${rule.metric} AS v, created_at AS t
+       FROM sensor_readings
+       WHERE device_id = $1
+         AND ${rule.metric} IS NOT NULL
+         AND created_at > ($2::timestamptz AT TIME ZONE 'UTC') - make_interval(mins => $3::int)
+         AND created_at <= $2::timestamptz AT TIME ZONE 'UTC'
+       UNION
+       SELECT $4::float8, $2::timestamptz AT TIME ZONE 'UTC'
+     ) h`,
+    [deviceId, readingAt, rule.window_minutes, current]
+  );
+  const slope = r.rows[0]?.slope;
+  if (slope === null || slope === undefined || r.rows[0].n < 2) return null;
+
+  const perHour = Number(slope) * 3600;
+  const v = rule.kind === "rate" ? perHour : (perHour * rule.window_minutes) / 60;
+  return Math.round(v * 1000) / 1000;
+}
+
+function alertMessage(rule: AlertRule, value: number) {
+  const m = METRICS[rule.metric] || { label: rule.metric, unit: "" };
+  if (rule.kind === "rate") {
+    return (
+      `${m.label} is ${value >= 0 ? "rising" : "falling"}: ${value}${m.unit}/h over ${rule.window_minutes} min ` +
+      `(threshold: ${rule.operator} ${rule.value}${m.unit}/h)`
+    );
+  }
+  if (rule.kind === "change") {
+    return (
+      `${m.label} changed by ${value}${m.unit} within ${rule.window_minutes} min ` +
+      `(threshold: ${rule.operator} ${rule.value}${m.unit})`
+    );
+  }
+  const above = isAbove(rule.operator);
+  return `${m.label} is ${above ? "high" : "low"}: ${value}${m.unit} (threshold: ${rule.operator} ${rule.value}${m.unit})`;
+}
+
+/**
+ * Rule state machine per (device, alert type), persisted in alert_state:
+ * - breached: extend the streak; once it is sustained the rule becomes active and fires one alert
+ *   (subject to cooldown). An active rule does not fire again until it has cleared, and no alert is
+ *   created while one of the same type is still open or acknowledged.
+ * - cleared (past clear_value, or back inside the threshold): reset and auto-resolve
+ * - in between (hysteresis band): the streak resets, an already-fired alert stays open
+ * Re-evaluating the same reading (same createdAt, or an older one) does not extend the streak.
+ */
+async function evaluateRule(
+  deviceId: string,
+  rule: AlertRule,
+  value: number,
+  readingAt: Date,
+  cooldown: number,
+  emailTo: string,
+  muted = false
+) {
+  const above = isAbove(rule.operator);
+  const breached = compare(value, rule.operator, rule.value);
+  const clearAt = isNumber(rule.clear_value) ? rule.clear_value : null;
+  const cleared = clearAt === null ? !breached : above ? value < clearAt : value > clearAt;
+
+  const st = await pool.query(`SELECT * FROM alert_state WHERE device_id = $1 AND alert_type = $2`, [
+    deviceId,
+    rule.type
+  ]);
+  const prev = st.rows[0];
+  const isNewReading = !prev?.last_reading_at || readingAt.getTime() > new Date(prev.last_reading_at).getTime();
+
+  let startedAt: Date | null = prev?.breach_started_at ? new Date(prev.breach_started_at) : null;
+  let count = Number(prev?.breach_count || 0);
+  let active = Boolean(prev?.active);
+  let created: any = null;
+  let resolved: any[] = [];
+
+  if (breached) {
+    // The streak counts distinct readings: the one that starts it, then only readings newer than the
+    // last one evaluated (worker ticks that see the same latest reading again do not extend it)
+    if (!startedAt) {
+      startedAt = readingAt;
+      count = 1;
+    } else if (isNewReading) {
+      count += 1;
+    }
+
+    const needReadings = Math.max(1, Number(rule.consecutive_readings || 1));
+    const needMs = Math.max(0, Number(rule.duration_minutes || 0)) * 60 * 1000;
+    const sustainedMs = readingAt.getTime() - startedAt.getTime();
+
+    // While muted (maintenance), or within the cooldown, the rule stays armed (inactive): the alert
+    // fires on the first evaluation after the window / cooldown
+    if (count >= needReadings && sustainedMs >= needMs && !active && !muted) {
+      if (await hasUnresolvedAlert(deviceId, rule.type)) {
+        active = true;
+      } else if (!(await shouldCooldown(deviceId, rule.type, cooldown))) {
+        const sustained =
+          needReadings > 1 || needMs > 0
+            ? ` — sustained for ${count} reading(s) / ${Math.floor(sustainedMs / 60000)} min`
+            : "";
+        created = await createAlert({
+          device_id: deviceId,
+          type: rule.type,
+          severity: rule.severity,
+          message: alertMessage(rule, value) + sustained,
+          value,
+          threshold: rule.value,
+          email_to: emailTo
+        });
+        active = true;
+      }
+    }
+  } else {
+    startedAt = null;
+    count = 0;
+    if (cleared) {
+      active = false;
+      resolved = await autoResolveAlerts(deviceId, rule.type);
+    }
+  }
+
+  await pool.query(
+    `INSERT INTO alert_state(device_id, alert_type, breach_started_at, breach_count, active, last_reading_at, updated_at)
+     VALUES ($1,$2,$3,$4,$5,$6,NOW())
+     ON CONFLICT (device_id, alert_type) DO UPDATE SET
+       breach_started_at = EXCLUDED.breach_started_at,
+       breach_count = EXCLUDED.breach_count,
+       active = EXCLUDED.active,
+       last_reading_at = GREATEST(alert_state.last_reading_at, EXCLUDED.last_reading_at),
+       updated_at = NOW()`,
+    [deviceId, rule.type, startedAt, count, active, readingAt]
+  );
+
+  return { created, resolved };
+}
+
+/**
+ * CSV of the readings behind new alerts: the device's readings over the longest sustain /
+ * trend window of the fired rules (at least the last hour), plus the evaluated reading
+ * when it is not stored yet.
+ */
+async function triggeringReadingsCsv(body: EvaluatePayload, readingAt: Date, rules: AlertRule[], created: any[]) {
+  const fired = rules.filter((r) => created.some((a) => a.type === r.type));
+  const minutes = Math.max(
+    60,
+    ...fired.map((r) => Math.max(Number(r.duration_minutes) || 0, r.kind === "threshold" ? 0 : Number(r.window_minutes) || 0))
+  );
+  const r = await pool.query(
+    `SELECT created_at, ${READING_METRICS.join(", ")}
+     FROM sensor_readings
+     WHERE device_id = $1
+       AND created_at > ($2::timestamptz AT TIME ZONE 'UTC') - make_interval(mins => $3::int)
+       AND created_at <= $2::timestamptz AT TIME ZONE 'UTC'
+     ORDER BY created_at
+     LIMIT 500`,
+    [body.device_id, readingAt, minutes]
+  );
+  const rows = r.rows.map((row) => ({ ...row, created_at: new Date(row.created_at).toISOString() }));
+  const last = rows[rows.length - 1];
+  if (!last || new Date(last.created_at).getTime() < readingAt.getTime()) {
+    rows.push({
+      created_at: readingAt.toISOString(),
+      ...Object.fromEntries(READING_METRICS.map((m) => [m, body[m]]))
+    });
+  }
+  // Only the metrics the device reports
+  const columns = READING_METRICS.filter((m) => rows.some((row) => row[m] !== null && row[m] !== undefined));
+  return toCsv(["created_at", ...columns], rows);
+}
+
+/**
+ * Run the alert rules for one reading, store new alerts and send the
+ * notification email. Shared by the HTTP endpoint, the background worker and batch ingestion.
+ * `checkNoData: false` skips the stale-data check (for buffered readings that are old on arrival).
+ */
+export async function evaluateDeviceReading(body: EvaluatePayload, opts: { checkNoData?: boolean } = {}) {
+  const deviceId = body.device_id;
+
+  const s = await getSettings(deviceId);
+  const settings = s || { device_id: deviceId, ...DEFAULT_ALERT_SETTINGS };
+
+  if (!settings.enabled) {
+    return { created: [], resolved: [], muted: [], settings, rules: [] };
+  }
+
+  const created: any[] = [];
+  const resolved: any[] = [];
+  const muted: string[] = []; // alert types evaluated while muted by a maintenance window
+  const emailTo = (settings.email_to || "").trim();
+  const cooldown = Number(settings.cooldown_minutes ?? 15);
+
+  // No-data / stale data (if the last reading with a value is too old)
+  if (body.createdAt && opts.checkNoData !== false && !isNaN(new Date(body.createdAt).getTime())) {
+    const last = await lastDataAt(body, new Date(body.createdAt));
+    const noDataMinutes = Number(settings.no_data_minutes || 60);
+    const diffMs = Date.now() - last.getTime();
+    const type = "no_data";
+    if (diffMs > noDataMinutes * 60 * 1000) {
+      if (isMuted(await activeMaintenance(deviceId), type)) {
+        muted.push(type);
+      } else if (!(await hasUnresolvedAlert(deviceId, type)) && !(await shouldCooldown(deviceId, type, cooldown))) {
+        const mins = Math.floor(diffMs / 60000);
+        const alert = await createAlert({
+          device_id: deviceId,
+          type,
+          severity: "critical",
+          message: `No new data received for ${mins} minutes (threshold: ${noDataMinutes} minutes)`,
+          value: mins,
+          threshold: noDataMinutes,
+          email_to: emailTo
+        });
+        created.push(alert);
+      }
+    } else {
+      resolved.push(...(await autoResolveAlerts(deviceId, type)));
+    }
+  }
+
+  // Evaluate rules (see evaluateRule for sustain / hysteresis handling).
+  // Trend rules are evaluated on the slope, which is also stored as the alert value.
+  const rules = (await getRules(deviceId)).filter((r) => r.enabled);
+  const readingAt = body.createdAt && !isNaN(new Date(body.createdAt).getTime()) ? new Date(body.createdAt) : new Date();
+  const maintenance = await activeMaintenance(deviceId, readingAt);
+  for (const rule of rules) {
+    const reading = (body as Record<string, any>)[rule.metric];
+    if (!isNumber(reading)) continue;
+    const value = rule.kind === "threshold" ? reading : await trendValue(deviceId, rule, reading, readingAt);
+    if (value === null) continue;
+    const isRuleMuted = isMuted(maintenance, rule.type);
+    const r = await evaluateRule(deviceId, rule, value, readingAt, cooldown, emailTo, isRuleMuted);
+    if (isRuleMuted) muted.push(rule.type);
+    if (r.created) created.push(r.created);
+    resolved.push(...r.resolved);
+  }
+
+  // Queue the notification email for newly created alerts (sent and retried by the email worker)
+  if (created.length && emailTo) {
+    const ctx = await alertEmailContext(deviceId, created, {
+      language: settings.email_language,
+      cooldownMinutes: cooldown,
+      metricByType: Object.fromEntries(rules.map((r) => [r.type, r.metric]))
+    });
+    const { subject, html, text } = await renderAlertEmail(ctx);
+
+    const csv = await triggeringReadingsCsv(body, readingAt, rules, created);
+    await enqueueEmail({
+      to: emailTo,
+      subject,
+      html,
+      text,
+      attachments: [
+        {
+          filename: `readings-${deviceId}-${readingAt.toISOString().slice(0, 16).replace(/[-:T]/g, "")}.csv`,
+          content: csv,
+          contentType: "text/csv; charset=utf-8"
+        }
+      ],
+      alertIds: created.map((a) => a.id)
+    });
+    for (const a of created) a.email_status = "pending";
+  }
+
+  return { created, resolved, muted, settings, rules };
+}
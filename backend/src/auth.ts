@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { pool } from "./db";
+
+export type Role = "admin" | "viewer";
+
+export type AuthUser = {
+  id: number;
+  username: string;
+  role: Role;
+};
+
+type TokenPayload = AuthUser & { exp: number };
+
+function env(k: string) {
+  return (process.env[k] || "").trim();
+}
+
+// Without AUTH_SECRET tokens are signed with a per-process key (sessions end on restart).
+const fallbackSecret = crypto.randomBytes(32).toString("hex");
+let warnedSecret = false;
+
+function authSecret() {
+  const s = env("AUTH_SECRET");
+  if (s) return s;
+  if (!warnedSecret) {
+    console.warn("⚠️ AUTH_SECRET is not set. Using a random key; logins will not survive a restart.");
+    warnedSecret = true;
+  }
+  return fallbackSecret;
+}
+
+function b64url(buf: Buffer | string) {
+  return Buffer.from(buf).toString("base64url");
+}
+
+/**
+ * Password hashing with scrypt (Node crypto only).
+ * Format: scrypt$<N>$<saltB64>$<hashB64>
+ */
+export function hashPassword(password: string) {
+  const N = 16384;
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64, { N });
+  return `scrypt$${N}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [alg, n, saltB64, hashB64] = String(stored || "").split("$");
+  if (alg !== "scrypt" || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = crypto.scryptSync(password, Buffer.from(saltB64, "base64"), expected.length, { N: Number(n) });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/** Signed session token: base64url(payload).base64url(HMAC-SHA256) */
+export function signToken(user: AuthUser) {
+  const ttlHours = Number(env("AUTH_TOKEN_TTL_HOURS")) || 12;
+  const payload: TokenPayload = {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    exp: Date.now() + ttlHours * 60 * 60 * 1000
+  };
+  const body = b64url(JSON.stringify(payload));
+  const sig = b64url(crypto.createHmac("sha256", authSecret()).update(body).digest());
+  return `${body}.${sig}`;
+}
+
+export function verifyToken(token: string): AuthUser | null {
+  const [body, sig] = String(token || "").split(".");
+  if (!body || !sig) return null;
+
+  const expected = crypto.createHmac("sha256", authSecret()).update(body).digest();
+  const actual = Buffer.from(sig, "base64url");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as TokenPayload;
+    if (!payload.exp || payload.exp < Date.now()) return null;
+    return { id: payload.id, username: payload.username, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when the users table is empty.
+ */
+export async function ensureBootstrapAdmin() {
+  const username = env("ADMIN_USERNAME");
+  const password = env("ADMIN_PASSWORD");
+
+  const r = await pool.query(`SELECT COUNT(*)::int AS n FROM users`);
+  if (r.rows[0].n > 0) return;
+
+  if (!username || !password) {
+    console.warn("⚠️ No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.");
+    return;
+  }
+
+  await pool.query(
+    `INSERT INTO users(username, password_hash, role) VALUES ($1,$2,'admin') ON CONFLICT (username) DO NOTHING`,
+    [username, hashPassword(password)]
+  );
+  console.log(`👤 Created admin user "${username}"`);
+}
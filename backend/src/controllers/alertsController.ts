@@ -1,23 +1,24 @@
 import { Request, Response } from "express";
 import { pool } from "../db";
-import { sendEmail } from "../email";
+import {
+  DEFAULT_ALERT_SETTINGS,
+  EvaluatePayload,
+  acknowledgeAlert,
+  evaluateDeviceReading,
+  getSettings,
+  resolveAlert
+} from "../alerting";
+import { ensureDeviceRules, getRules, parseRule } from "../alertRules";
+import { DIGEST_PERIODS, DigestPeriod, buildDigestEmail } from "../digest";
+import { parseLanguage } from "../emailTemplates";
+import { parseEscalationSteps } from "../escalation";
+import { sendCsv } from "../csv";
+import { parseList } from "../readings";
 
-type EvaluatePayload = {
-  device_id: string;
-  createdAt?: string;
-  salinity?: number;
-  ph?: number;
-  temperature?: number;
-  battery?: number;
-};
-
-function isNumber(v: any): v is number {
-  return typeof v === "number" && Number.isFinite(v);
-}
-
-async function getSettings(deviceId: string) {
-  const r = await pool.query(`SELECT * FROM alert_settings WHERE device_id = $1`, [deviceId]);
-  return r.rows[0] || null;
+/** A SERIAL id from the URL; null when it is not a positive 32-bit integer (answered with a 400). */
+function parseId(v: any) {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 && n <= 2147483647 ? n : null;
 }
 
 export async function getAlertSettings(req: Request, res: Response) {
@@ -26,19 +27,7 @@ export async function getAlertSettings(req: Request, res: Response) {
     const s = await getSettings(deviceId);
     // If missing, return defaults (client can PUT to persist)
     if (!s) {
-      return res.json({
-        device_id: deviceId,
-        salinity_high: 10,
-        ph_low: 6.5,
-        ph_high: 8.5,
-        temperature_low: null,
-        temperature_high: null,
-        battery_low: 20,
-        no_data_minutes: 60,
-        cooldown_minutes: 15,
-        email_to: "",
-        enabled: true
-      });
+      return res.json({ device_id: deviceId, ...DEFAULT_ALERT_SETTINGS });
     }
     res.json(s);
   } catch (err) {
@@ -51,48 +40,50 @@ export async function upsertAlertSettings(req: Request, res: Response) {
   try {
     const deviceId = req.params.deviceId;
     const {
-      salinity_high,
-      ph_low,
-      ph_high,
-      temperature_low,
-      temperature_high,
-      battery_low,
       no_data_minutes,
       cooldown_minutes,
       email_to,
-      enabled
+      enabled,
+      digest_frequency,
+      digest_email_to,
+      email_language,
+      escalation_steps
     } = req.body || {};
+    const digest = digest_frequency ?? "off";
+    if (digest !== "off" && !DIGEST_PERIODS.includes(digest)) {
+      return res.status(400).json({ error: `digest_frequency must be off, ${DIGEST_PERIODS.join(" or ")}` });
+    }
+    const language = parseLanguage(email_language ?? "en");
+    if (!language) return res.status(400).json({ error: "email_language must be a language code like en or vi" });
+    const escalation = parseEscalationSteps(escalation_steps);
+    if ("error" in escalation) return res.status(400).json({ error: escalation.error });
+
+    // Creates the settings row (and the device's default rules) on first save
+    await ensureDeviceRules(deviceId);
 
     const result = await pool.query(
-      `INSERT INTO alert_settings(
-          device_id, salinity_high, ph_low, ph_high, temperature_low, temperature_high,
-          battery_low, no_data_minutes, cooldown_minutes, email_to, enabled, updated_at
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,NOW())
-        ON CONFLICT (device_id) DO UPDATE SET
-          salinity_high = EXCLUDED.salinity_high,
-          ph_low = EXCLUDED.ph_low,
-          ph_high = EXCLUDED.ph_high,
-          temperature_low = EXCLUDED.temperature_low,
-          temperature_high = EXCLUDED.temperature_high,
-          battery_low = EXCLUDED.battery_low,
-          no_data_minutes = EXCLUDED.no_data_minutes,
-          cooldown_minutes = EXCLUDED.cooldown_minutes,
-          email_to = EXCLUDED.email_to,
-          enabled = EXCLUDED.enabled,
+      `UPDATE alert_settings SET
+          no_data_minutes = $2,
+          cooldown_minutes = $3,
+          email_to = $4,
+          enabled = $5,
+          digest_frequency = $6,
+          digest_email_to = $7,
+          email_language = $8,
+          escalation_steps = $9,
           updated_at = NOW()
+        WHERE device_id = $1
         RETURNING *`,
       [
         deviceId,
-        salinity_high ?? null,
-        ph_low ?? null,
-        ph_high ?? null,
-        temperature_low ?? null,
-        temperature_high ?? null,
-        battery_low ?? null,
         no_data_minutes ?? 60,
         cooldown_minutes ?? 15,
         email_to ?? "",
-        enabled ?? true
+        enabled ?? true,
+        digest,
+        digest_email_to ?? "",
+        language,
+        JSON.stringify(escalation.steps)
       ]
     );
 
@@ -105,60 +96,84 @@ export async function upsertAlertSettings(req: Request, res: Response) {
 
 export async function getAlerts(req: Request, res: Response) {
   try {
-    const { device_id, limit } = req.query;
+    const { device_id, status, limit } = req.query;
     const lim = Math.min(Number(limit || 50), 200);
 
-    if (device_id) {
-      const r = await pool.query(
-        `SELECT * FROM alerts WHERE device_id = $1 ORDER BY created_at DESC LIMIT $2`,
-        [String(device_id), lim]
-      );
-      return res.json(r.rows);
-    }
-
-    const r = await pool.query(`SELECT * FROM alerts ORDER BY created_at DESC LIMIT $1`, [lim]);
-    res.json(r.rows);
+    const r = await pool.query(
+      `SELECT * FROM alerts
+       WHERE ($1::text IS NULL OR device_id = $1)
+         AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC LIMIT $3`,
+      [device_id ? String(device_id) : null, status ? String(status) : null, lim]
+    );
+    // The history is public: email recipients are only shown to admins (alert settings)
+    res.json(r.rows.map(({ email_to, ...alert }) => alert));
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch alerts" });
   }
 }
 
-async function shouldCooldown(deviceId: string, type: string, cooldownMinutes: number) {
-  const r = await pool.query(
-    `SELECT created_at FROM alerts WHERE device_id = $1 AND type = $2 ORDER BY created_at DESC LIMIT 1`,
-    [deviceId, type]
-  );
-  const last = r.rows[0]?.created_at ? new Date(r.rows[0].created_at) : null;
-  if (!last) return false;
-  const diffMs = Date.now() - last.getTime();
-  return diffMs < cooldownMinutes * 60 * 1000;
-}
+const ALERT_EXPORT_COLUMNS = [
+  "id",
+  "device_id",
+  "created_at",
+  "type",
+  "severity",
+  "message",
+  "value",
+  "threshold",
+  "status",
+  "acknowledged_at",
+  "acknowledged_by",
+  "resolved_at",
+  "resolved_by",
+  "escalation_level",
+  "email_status"
+];
+const ALERT_EXPORT_BATCH = 2000;
+
+/** CSV download of the alert history (`device_id`, `status`, `from`, `to` all optional), oldest first. */
+export async function exportAlertsCsv(req: Request, res: Response) {
+  try {
+    const deviceIds = parseList(req.query.device_id);
+    const status = req.query.status ? String(req.query.status) : null;
+    const from = req.query.from ? new Date(String(req.query.from)) : null;
+    const to = req.query.to ? new Date(String(req.query.to)) : null;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: "from / to must be dates" });
+    }
+
+    // Keyset pages on id (alerts are inserted in time order), so the whole history is never held in memory
+    const pages = async function* () {
+      let afterId = 0;
+      while (true) {
+        const rows: any[] = (
+          await pool.query(
+            `SELECT ${ALERT_EXPORT_COLUMNS.join(", ")} FROM alerts
+             WHERE (cardinality($1::text[]) = 0 OR device_id = ANY($1))
+               AND ($2::text IS NULL OR status = $2)
+               AND ($3::timestamptz IS NULL OR created_at >= $3)
+               AND ($4::timestamptz IS NULL OR created_at <= $4)
+               AND id > $5
+             ORDER BY id
+             LIMIT $6`,
+            [deviceIds, status, from, to, afterId, ALERT_EXPORT_BATCH]
+          )
+        ).rows;
+        yield rows;
+        if (rows.length < ALERT_EXPORT_BATCH) return;
+        afterId = Number(rows[rows.length - 1].id);
+      }
+    };
 
-async function createAlert(params: {
-  device_id: string;
-  type: string;
-  severity: "warning" | "critical";
-  message: string;
-  value?: number;
-  threshold?: number;
-  email_to?: string;
-}) {
-  const r = await pool.query(
-    `INSERT INTO alerts(device_id, type, severity, message, value, threshold, email_to)
-     VALUES ($1,$2,$3,$4,$5,$6,$7)
-     RETURNING *`,
-    [
-      params.device_id,
-      params.type,
-      params.severity,
-      params.message,
-      params.value ?? null,
-      params.threshold ?? null,
-      params.email_to ?? null
-    ]
-  );
-  return r.rows[0];
+    const name = `alerts-${deviceIds.join("_") || "all"}-${new Date().toISOString().slice(0, 10)}.csv`;
+    await sendCsv(res, name, ALERT_EXPORT_COLUMNS, pages());
+  } catch (err) {
+    console.error(err);
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({ error: "Failed to export alerts" });
+  }
 }
 
 export async function evaluateReading(req: Request, res: Response) {
@@ -169,183 +184,202 @@ export async function evaluateReading(req: Request, res: Response) {
     if (!deviceId) {
       return res.status(400).json({ error: "device_id is required" });
     }
-
-    const s = await getSettings(deviceId);
-    const settings = s || {
-      device_id: deviceId,
-      salinity_high: 10,
-      ph_low: 6.5,
-      ph_high: 8.5,
-      temperature_low: null,
-      temperature_high: null,
-      battery_low: 20,
-      no_data_minutes: 60,
-      cooldown_minutes: 15,
-      email_to: "",
-      enabled: true
-    };
-
-    if (!settings.enabled) {
-      return res.json({ ok: true, created: [], settings });
+    // The reading's own time: sustained rules count distinct readings by it
+    if (typeof body.createdAt !== "string" || isNaN(Date.parse(body.createdAt))) {
+      return res.status(400).json({ error: "createdAt must be an ISO date string" });
     }
 
-    const created: any[] = [];
-    const emailTo = (settings.email_to || "").trim();
-    const cooldown = Number(settings.cooldown_minutes || 15);
+    const { created, resolved, muted, settings } = await evaluateDeviceReading({ ...body, device_id: deviceId });
+    res.json({ ok: true, created, resolved, muted, settings });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to evaluate reading" });
+  }
+}
 
-    // No-data / stale data (if createdAt is too old)
-    if (body.createdAt) {
-      const last = new Date(body.createdAt);
-      if (!isNaN(last.getTime())) {
-        const noDataMinutes = Number(settings.no_data_minutes || 60);
-        const diffMs = Date.now() - last.getTime();
-        if (diffMs > noDataMinutes * 60 * 1000) {
-          const type = "no_data";
-          if (!(await shouldCooldown(deviceId, type, cooldown))) {
-            const mins = Math.floor(diffMs / 60000);
-            const alert = await createAlert({
-              device_id: deviceId,
-              type,
-              severity: "critical",
-              message: `No new data received for ${mins} minutes (threshold: ${noDataMinutes} minutes)`,
-              value: mins,
-              threshold: noDataMinutes,
-              email_to: emailTo
-            });
-            created.push(alert);
-          }
-        }
-      }
+/** Escalation steps sent for one alert, oldest first. */
+export async function getAlertEscalations(req: Request, res: Response) {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ error: "Invalid alert id" });
+    const r = await pool.query(
+      `SELECT id, alert_id, level, after_minutes, email_to, created_at
+       FROM alert_escalations
+       WHERE alert_id = $1
+       ORDER BY level`,
+      [id]
+    );
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch alert escalations" });
+  }
+}
+
+export async function acknowledgeAlertById(req: Request, res: Response) {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ error: "Invalid alert id" });
+    const alert = await acknowledgeAlert(String(id), req.user?.username || "unknown");
+    if (!alert) {
+      return res.status(409).json({ error: "Alert not found or not open" });
     }
+    res.json(alert);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to acknowledge alert" });
+  }
+}
 
-    // Evaluate thresholds
-    // Salinity high
-    if (isNumber(body.salinity) && isNumber(settings.salinity_high) && body.salinity > settings.salinity_high) {
-      const type = "salinity_high";
-      if (!(await shouldCooldown(deviceId, type, cooldown))) {
-        const alert = await createAlert({
-          device_id: deviceId,
-          type,
-          severity: "warning",
-          message: `Salinity is high: ${body.salinity} ppt (threshold: ${settings.salinity_high} ppt)` ,
-          value: body.salinity,
-          threshold: settings.salinity_high,
-          email_to: emailTo
-        });
-        created.push(alert);
-      }
+export async function resolveAlertById(req: Request, res: Response) {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ error: "Invalid alert id" });
+    const alert = await resolveAlert(String(id), req.user?.username || "unknown");
+    if (!alert) {
+      return res.status(409).json({ error: "Alert not found or already resolved" });
     }
+    res.json(alert);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to resolve alert" });
+  }
+}
 
-    // pH out of range
-    if (isNumber(body.ph)) {
-      if (isNumber(settings.ph_low) && body.ph < settings.ph_low) {
-        const type = "ph_low";
-        if (!(await shouldCooldown(deviceId, type, cooldown))) {
-          const alert = await createAlert({
-            device_id: deviceId,
-            type,
-            severity: "warning",
-            message: `pH is low: ${body.ph} (threshold: ${settings.ph_low})`,
-            value: body.ph,
-            threshold: settings.ph_low,
-            email_to: emailTo
-          });
-          created.push(alert);
-        }
-      }
-      if (isNumber(settings.ph_high) && body.ph > settings.ph_high) {
-        const type = "ph_high";
-        if (!(await shouldCooldown(deviceId, type, cooldown))) {
-          const alert = await createAlert({
-            device_id: deviceId,
-            type,
-            severity: "warning",
-            message: `pH is high: ${body.ph} (threshold: ${settings.ph_high})`,
-            value: body.ph,
-            threshold: settings.ph_high,
-            email_to: emailTo
-          });
-          created.push(alert);
-        }
-      }
+export async function getAlertRules(req: Request, res: Response) {
+  try {
+    const deviceId = String(req.query.device_id || "").trim();
+    if (!deviceId) {
+      return res.status(400).json({ error: "device_id is required" });
     }
+    res.json(await getRules(deviceId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch alert rules" });
+  }
+}
 
-    // Temperature out of range (optional)
-    if (isNumber(body.temperature)) {
-      if (isNumber(settings.temperature_low) && body.temperature < settings.temperature_low) {
-        const type = "temperature_low";
-        if (!(await shouldCooldown(deviceId, type, cooldown))) {
-          const alert = await createAlert({
-            device_id: deviceId,
-            type,
-            severity: "warning",
-            message: `Temperature is low: ${body.temperature}°C (threshold: ${settings.temperature_low}°C)`,
-            value: body.temperature,
-            threshold: settings.temperature_low,
-            email_to: emailTo
-          });
-          created.push(alert);
-        }
-      }
-      if (isNumber(settings.temperature_high) && body.temperature > settings.temperature_high) {
-        const type = "temperature_high";
-        if (!(await shouldCooldown(deviceId, type, cooldown))) {
-          const alert = await createAlert({
-            device_id: deviceId,
-            type,
-            severity: "warning",
-            message: `Temperature is high: ${body.temperature}°C (threshold: ${settings.temperature_high}°C)`,
-            value: body.temperature,
-            threshold: settings.temperature_high,
-            email_to: emailTo
-          });
-          created.push(alert);
-        }
-      }
+export async function createAlertRule(req: Request, res: Response) {
+  try {
+    const parsed = parseRule(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
     }
+    const r = parsed.rule;
+    await ensureDeviceRules(r.device_id);
 
-    // Battery low
-    if (isNumber(body.battery) && isNumber(settings.battery_low) && body.battery < settings.battery_low) {
-      const type = "battery_low";
-      if (!(await shouldCooldown(deviceId, type, cooldown))) {
-        const alert = await createAlert({
-          device_id: deviceId,
-          type,
-          severity: body.battery < 10 ? "critical" : "warning",
-          message: `Battery is low: ${body.battery}% (threshold: ${settings.battery_low}%)`,
-          value: body.battery,
-          threshold: settings.battery_low,
-          email_to: emailTo
-        });
-        created.push(alert);
-      }
+    const result = await pool.query(
+      `INSERT INTO alert_rules(
+          device_id, type, kind, metric, operator, value, clear_value, severity,
+          duration_minutes, consecutive_readings, window_minutes, enabled
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+        ON CONFLICT (device_id, type) DO NOTHING
+        RETURNING *`,
+      [
+        r.device_id,
+        r.type,
+        r.kind,
+        r.metric,
+        r.operator,
+        r.value,
+        r.clear_value,
+        r.severity,
+        r.duration_minutes,
+        r.consecutive_readings,
+        r.window_minutes,
+        r.enabled
+      ]
+    );
+    if (!result.rows[0]) {
+      return res.status(409).json({ error: `Rule type ${r.type} already exists for this device` });
     }
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create alert rule" });
+  }
+}
 
-    // Send email (best-effort) for newly created alerts
-    if (created.length && emailTo) {
-      const subject = `[Water Monitoring] ${deviceId}: ${created.length} alert(s)`;
-      const html = `
-        <div style="font-family: Arial, sans-serif; line-height: 1.6">
-          <h2>Water Monitoring Alert</h2>
-          <p><b>Device:</b> ${deviceId}</p>
-          <ul>
-            ${created
-              .map((a) => `<li><b>${a.type}</b> — ${a.message} <i>(${new Date(a.created_at).toLocaleString()})</i></li>`)
-              .join("")}
-          </ul>
-          <p>Cooldown: ${cooldown} minutes (duplicate alerts are suppressed).</p>
-        </div>
-      `;
+export async function updateAlertRule(req: Request, res: Response) {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ error: "Invalid rule id" });
+    const existing = await pool.query(`SELECT device_id, type FROM alert_rules WHERE id = $1`, [id]);
+    if (!existing.rows[0]) return res.status(404).json({ error: "Rule not found" });
+    const { device_id, type } = existing.rows[0];
 
-      const ok = await sendEmail({ to: emailTo, subject, html });
-      if (ok) {
-        await pool.query(`UPDATE alerts SET email_sent = TRUE WHERE id = ANY($1::bigint[])`, [created.map((a) => a.id)]);
-      }
+    const parsed = parseRule({ ...req.body, device_id, type: req.body?.type || type });
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    // alert_state, open alerts and escalations are keyed by type: a rule keeps its type for life
+    if (parsed.rule.type !== type) {
+      return res.status(400).json({ error: "type cannot be changed; delete the rule and add a new one" });
     }
+    const r = parsed.rule;
 
-    res.json({ ok: true, created, settings });
+    const result = await pool.query(
+      `UPDATE alert_rules SET
+          kind = $2,
+          metric = $3,
+          operator = $4,
+          value = $5,
+          clear_value = $6,
+          severity = $7,
+          duration_minutes = $8,
+          consecutive_readings = $9,
+          window_minutes = $10,
+          enabled = $11,
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [
+        id,
+        r.kind,
+        r.metric,
+        r.operator,
+        r.value,
+        r.clear_value,
+        r.severity,
+        r.duration_minutes,
+        r.consecutive_readings,
+        r.window_minutes,
+        r.enabled
+      ]
+    );
+    res.json(result.rows[0]);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: "Failed to evaluate reading" });
+    res.status(500).json({ error: "Failed to update alert rule" });
+  }
+}
+
+export async function deleteAlertRule(req: Request, res: Response) {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return res.status(400).json({ error: "Invalid rule id" });
+    const r = await pool.query(`DELETE FROM alert_rules WHERE id = $1 RETURNING id`, [id]);
+    if (!r.rows[0]) return res.status(404).json({ error: "Rule not found" });
+    res.json({ ok: true, id: r.rows[0].id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete alert rule" });
+  }
+}
+
+/** Renders the digest email of one device as HTML, without sending it. */
+export async function previewDigest(req: Request, res: Response) {
+  try {
+    const deviceId = String(req.query.device_id || "").trim();
+    const period = String(req.query.period || "daily") as DigestPeriod;
+    if (!deviceId) return res.status(400).json({ error: "device_id is required" });
+    if (!DIGEST_PERIODS.includes(period)) {
+      return res.status(400).json({ error: `period must be ${DIGEST_PERIODS.join(" or ")}` });
+    }
+    const { subject, html } = await buildDigestEmail(period, [deviceId]);
+    res.json({ subject, html });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to build digest" });
   }
 }
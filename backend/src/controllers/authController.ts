@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { hashPassword, signToken, verifyPassword } from "../auth";
+
+function publicUser(row: any) {
+  return { id: row.id, username: row.username, role: row.role };
+}
+
+export async function login(req: Request, res: Response) {
+  try {
+    const username = String(req.body?.username || "").trim();
+    const password = String(req.body?.password || "");
+
+    if (!username || !password) {
+      return res.status(400).json({ error: "username and password are required" });
+    }
+
+    const r = await pool.query(`SELECT * FROM users WHERE username = $1`, [username]);
+    const row = r.rows[0];
+    if (!row || !verifyPassword(password, row.password_hash)) {
+      return res.status(401).json({ error: "Invalid credentials" });
+    }
+
+    await pool.query(`UPDATE users SET last_login_at = NOW() WHERE id = $1`, [row.id]);
+
+    const user = publicUser(row);
+    res.json({ token: signToken(user), user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to log in" });
+  }
+}
+
+export async function me(req: Request, res: Response) {
+  res.json({ user: req.user });
+}
+
+export async function getUsers(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT id, username, role, created_at, last_login_at FROM users ORDER BY id ASC`);
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+}
+
+export async function createUser(req: Request, res: Response) {
+  try {
+    const username = String(req.body?.username || "").trim();
+    const password = String(req.body?.password || "");
+    const role = req.body?.role === "admin" ? "admin" : "viewer";
+
+    if (!username || password.length < 8) {
+      return res.status(400).json({ error: "username and a password of at least 8 characters are required" });
+    }
+
+    const r = await pool.query(
+      `INSERT INTO users(username, password_hash, role) VALUES ($1,$2,$3)
+       ON CONFLICT (username) DO NOTHING
+       RETURNING id, username, role, created_at`,
+      [username, hashPassword(password), role]
+    );
+    if (!r.rows[0]) return res.status(409).json({ error: `User ${username} already exists` });
+    res.status(201).json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create user" });
+  }
+}
@@ -0,0 +1,91 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { generateDeviceKey } from "../deviceKeys";
+
+const KEY_COLUMNS = `id, device_id, key_prefix, label, created_by, created_at, last_used_at, revoked_at`;
+
+export async function getDeviceKeys(req: Request, res: Response) {
+  try {
+    const r = await pool.query(
+      `SELECT ${KEY_COLUMNS} FROM device_api_keys WHERE device_id = $1 ORDER BY created_at DESC`,
+      [req.params.id]
+    );
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch device keys" });
+  }
+}
+
+export async function issueDeviceKey(req: Request, res: Response) {
+  try {
+    const deviceId = req.params.id;
+    const d = await pool.query(`SELECT id FROM devices WHERE id = $1`, [deviceId]);
+    if (!d.rows[0]) return res.status(404).json({ error: "Device not found" });
+
+    const { key, prefix, hash } = generateDeviceKey();
+    const r = await pool.query(
+      `INSERT INTO device_api_keys(device_id, key_prefix, key_hash, label, created_by)
+       VALUES ($1,$2,$3,$4,$5)
+       RETURNING ${KEY_COLUMNS}`,
+      [deviceId, prefix, hash, req.body?.label ?? null, req.user?.username ?? null]
+    );
+
+    // The plain key is only returned here
+    res.status(201).json({ ...r.rows[0], key });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to issue device key" });
+  }
+}
+
+/** Revokes the old key and issues a replacement with the same label. */
+export async function rotateDeviceKey(req: Request, res: Response) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const old = await client.query(
+      `UPDATE device_api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND device_id = $2 AND revoked_at IS NULL
+       RETURNING label`,
+      [req.params.keyId, req.params.id]
+    );
+    if (!old.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Active key not found" });
+    }
+
+    const { key, prefix, hash } = generateDeviceKey();
+    const r = await client.query(
+      `INSERT INTO device_api_keys(device_id, key_prefix, key_hash, label, created_by)
+       VALUES ($1,$2,$3,$4,$5)
+       RETURNING ${KEY_COLUMNS}`,
+      [req.params.id, prefix, hash, old.rows[0].label, req.user?.username ?? null]
+    );
+    await client.query("COMMIT");
+
+    res.status(201).json({ ...r.rows[0], key });
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {});
+    console.error(err);
+    res.status(500).json({ error: "Failed to rotate device key" });
+  } finally {
+    client.release();
+  }
+}
+
+export async function revokeDeviceKey(req: Request, res: Response) {
+  try {
+    const r = await pool.query(
+      `UPDATE device_api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND device_id = $2 AND revoked_at IS NULL
+       RETURNING ${KEY_COLUMNS}`,
+      [req.params.keyId, req.params.id]
+    );
+    if (!r.rows[0]) return res.status(404).json({ error: "Active key not found" });
+    res.json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to revoke device key" });
+  }
+}
@@ -0,0 +1,146 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { FieldMapping, parseFieldMap } from "../thingspeak";
+import { statusThresholds } from "../alertRules";
+
+function numOrNull(v: any) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function deviceValues(body: any, fieldMap: FieldMapping[] | null) {
+  return [
+    String(body.name || "").trim(),
+    body.location_label ?? null,
+    numOrNull(body.lat),
+    numOrNull(body.lng),
+    numOrNull(body.channel_id),
+    body.read_api_key ?? null,
+    fieldMap ? JSON.stringify(fieldMap) : null
+  ];
+}
+
+/** Adds the read-only status thresholds (salinity_high, battery_low) derived from the device's alert rules. */
+async function withThresholds(rows: any[]) {
+  const thresholds = await statusThresholds(rows.map((r) => r.id));
+  return rows.map((r) => ({ ...r, ...thresholds.get(r.id) }));
+}
+
+export async function getDevices(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT * FROM devices ORDER BY created_at ASC, id ASC`);
+    res.json(await withThresholds(r.rows));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch devices" });
+  }
+}
+
+export async function getDevice(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT * FROM devices WHERE id = $1`, [req.params.id]);
+    if (!r.rows[0]) return res.status(404).json({ error: "Device not found" });
+    res.json((await withThresholds(r.rows))[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch device" });
+  }
+}
+
+export async function createDevice(req: Request, res: Response) {
+  try {
+    const body = req.body || {};
+    const id = String(body.id || "").trim();
+    const name = String(body.name || "").trim();
+
+    if (!id || !name) {
+      return res.status(400).json({ error: "id and name are required" });
+    }
+    const parsed = parseFieldMap(body.field_map);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+
+    const result = await pool.query(
+      `INSERT INTO devices(
+          id, name, location_label, lat, lng, channel_id, read_api_key, field_map
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING *`,
+      [id, ...deviceValues(body, parsed.fieldMap)]
+    );
+
+    if (!result.rows[0]) {
+      return res.status(409).json({ error: `Device ${id} already exists` });
+    }
+    res.status(201).json((await withThresholds(result.rows))[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create device" });
+  }
+}
+
+export async function updateDevice(req: Request, res: Response) {
+  try {
+    const body = req.body || {};
+    if (!String(body.name || "").trim()) {
+      return res.status(400).json({ error: "name is required" });
+    }
+    const parsed = parseFieldMap(body.field_map);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+
+    const result = await pool.query(
+      `UPDATE devices SET
+          name = $2,
+          location_label = $3,
+          lat = $4,
+          lng = $5,
+          channel_id = $6,
+          read_api_key = $7,
+          field_map = $8,
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [req.params.id, ...deviceValues(body, parsed.fieldMap)]
+    );
+
+    if (!result.rows[0]) return res.status(404).json({ error: "Device not found" });
+    res.json((await withThresholds(result.rows))[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update device" });
+  }
+}
+
+/**
+ * Removes the device with its alert settings, rules and webhooks, and revokes its ingestion keys.
+ * Alert history and raw readings are kept (they reference device_id by value).
+ */
+export async function deleteDevice(req: Request, res: Response) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const r = await client.query(`DELETE FROM devices WHERE id = $1 RETURNING id`, [req.params.id]);
+    if (!r.rows[0]) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Device not found" });
+    }
+    await client.query(`DELETE FROM alert_settings WHERE device_id = $1`, [req.params.id]);
+    await client.query(`DELETE FROM alert_rules WHERE device_id = $1`, [req.params.id]);
+    await client.query(`DELETE FROM alert_state WHERE device_id = $1`, [req.params.id]);
+    await client.query(`DELETE FROM webhooks WHERE device_id = $1`, [req.params.id]);
+    await client.query(`DELETE FROM maintenance_windows WHERE device_id = $1`, [req.params.id]);
+    await client.query(`DELETE FROM thingspeak_sync WHERE device_id = $1`, [req.params.id]);
+    await client.query(
+      `UPDATE device_api_keys SET revoked_at = NOW() WHERE device_id = $1 AND revoked_at IS NULL`,
+      [req.params.id]
+    );
+    await client.query("COMMIT");
+    res.json({ ok: true, id: req.params.id });
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {});
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete device" });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,161 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { deliverEmail } from "../email";
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_PLACEHOLDERS,
+  TEMPLATE_SEVERITIES,
+  TemplateSeverity,
+  findTemplate,
+  parseLanguage,
+  renderTemplate,
+  sampleAlertContext,
+  unknownPlaceholders
+} from "../emailTemplates";
+
+const TEMPLATE_COLUMNS = `id, language, severity, subject, html, text_body AS text, updated_by, updated_at`;
+
+function parseKey(language: any, severity: any) {
+  const lang = parseLanguage(language);
+  if (!lang) return { error: "language must be a language code like en or vi" };
+  const sev = String(severity ?? "any") as TemplateSeverity;
+  if (!TEMPLATE_SEVERITIES.includes(sev)) {
+    return { error: `severity must be one of: ${TEMPLATE_SEVERITIES.join(", ")}` };
+  }
+  return { language: lang, severity: sev };
+}
+
+/** Validates subject / html / text of a request body. */
+function parseTemplate(body: any) {
+  const subject = String(body?.subject ?? "").trim();
+  const html = String(body?.html ?? "");
+  const text = String(body?.text ?? "").trim() ? String(body.text) : null;
+  if (!subject) return { error: "subject is required" };
+  if (!html.trim()) return { error: "html is required" };
+  const unknown = unknownPlaceholders(subject, html, text);
+  if (unknown.length) return { error: `Unknown placeholder(s): ${unknown.map((n) => `{{${n}}}`).join(", ")}` };
+  return { template: { subject, html, text } };
+}
+
+export async function getEmailTemplates(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT ${TEMPLATE_COLUMNS} FROM email_templates ORDER BY language, severity`);
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch email templates" });
+  }
+}
+
+/** Built-in templates and the placeholder reference (for the editor). */
+export async function getEmailTemplateDefaults(req: Request, res: Response) {
+  res.json({
+    placeholders: TEMPLATE_PLACEHOLDERS,
+    severities: TEMPLATE_SEVERITIES,
+    templates: Object.values(DEFAULT_TEMPLATES)
+  });
+}
+
+export async function saveEmailTemplate(req: Request, res: Response) {
+  try {
+    const key = parseKey(req.params.language, req.params.severity);
+    if ("error" in key) return res.status(400).json({ error: key.error });
+    const parsed = parseTemplate(req.body);
+    if (!parsed.template) return res.status(400).json({ error: parsed.error });
+
+    const r = await pool.query(
+      `INSERT INTO email_templates(language, severity, subject, html, text_body, updated_by, updated_at)
+       VALUES ($1,$2,$3,$4,$5,$6,NOW())
+       ON CONFLICT (language, severity) DO UPDATE SET
+         subject = EXCLUDED.subject,
+         html = EXCLUDED.html,
+         text_body = EXCLUDED.text_body,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = NOW()
+       RETURNING ${TEMPLATE_COLUMNS}`,
+      [
+        key.language,
+        key.severity,
+        parsed.template.subject,
+        parsed.template.html,
+        parsed.template.text,
+        req.user?.username ?? null
+      ]
+    );
+    res.json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to save email template" });
+  }
+}
+
+/** Removes a stored template; emails fall back to the next template in the lookup order. */
+export async function deleteEmailTemplate(req: Request, res: Response) {
+  try {
+    const key = parseKey(req.params.language, req.params.severity);
+    if ("error" in key) return res.status(400).json({ error: key.error });
+    const r = await pool.query(`DELETE FROM email_templates WHERE language = $1 AND severity = $2 RETURNING id`, [
+      key.language,
+      key.severity
+    ]);
+    if (!r.rows[0]) return res.status(404).json({ error: "Email template not found" });
+    res.json({ ok: true, id: r.rows[0].id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete email template" });
+  }
+}
+
+/**
+ * Renders a template with a sample alert. Body: { language, severity, device_id?, subject?, html?, text? };
+ * without subject / html the template currently used for that language + severity is rendered.
+ */
+async function renderSample(body: any) {
+  const key = parseKey(body?.language ?? "en", body?.severity ?? "any");
+  if ("error" in key) return { error: key.error };
+  const severity = key.severity === "any" ? "warning" : key.severity;
+
+  let template;
+  if (body?.subject !== undefined || body?.html !== undefined) {
+    const parsed = parseTemplate(body);
+    if (!parsed.template) return { error: parsed.error };
+    template = parsed.template;
+  } else {
+    template = await findTemplate(key.language, severity);
+  }
+
+  const deviceId = String(body?.device_id || "").trim() || "demo-station";
+  const ctx = await sampleAlertContext(deviceId, key.language, severity);
+  return { email: renderTemplate(template, ctx) };
+}
+
+export async function previewEmailTemplate(req: Request, res: Response) {
+  try {
+    const r = await renderSample(req.body);
+    if (!r.email) return res.status(400).json({ error: r.error });
+    res.json(r.email);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to render email template" });
+  }
+}
+
+/** Sends the rendered sample right away (not through the outbox) so SMTP errors are shown to the admin. */
+export async function sendTestEmailTemplate(req: Request, res: Response) {
+  try {
+    const to = String(req.body?.to || "").trim();
+    if (!to) return res.status(400).json({ error: "to is required" });
+    const r = await renderSample(req.body);
+    if (!r.email) return res.status(400).json({ error: r.error });
+
+    try {
+      await deliverEmail({ to, ...r.email });
+    } catch (e: any) {
+      return res.status(502).json({ error: `Test email failed: ${e?.message || e}` });
+    }
+    res.json({ ok: true, to, subject: r.email.subject });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to send test email" });
+  }
+}
@@ -0,0 +1,81 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { MAINTENANCE_COLUMNS, parseMaintenanceWindow } from "../maintenance";
+
+/** Windows overlapping [from, to] (default: the last 7 days and everything scheduled), oldest first. */
+export async function getMaintenanceWindows(req: Request, res: Response) {
+  try {
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(Date.now() - 7 * 24 * 3600000);
+    const to = req.query.to ? new Date(String(req.query.to)) : null;
+    if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: "from / to must be dates" });
+    }
+    const r = await pool.query(
+      `SELECT ${MAINTENANCE_COLUMNS} FROM maintenance_windows
+       WHERE device_id = $1 AND ends_at >= $2 AND ($3::timestamptz IS NULL OR starts_at <= $3)
+       ORDER BY starts_at ASC, id ASC`,
+      [req.params.id, from, to]
+    );
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch maintenance windows" });
+  }
+}
+
+export async function createMaintenanceWindow(req: Request, res: Response) {
+  try {
+    const parsed = parseMaintenanceWindow(req.body);
+    if (!parsed.window) return res.status(400).json({ error: parsed.error });
+
+    const d = await pool.query(`SELECT id FROM devices WHERE id = $1`, [req.params.id]);
+    if (!d.rows[0]) return res.status(404).json({ error: "Device not found" });
+
+    const w = parsed.window;
+    const r = await pool.query(
+      `INSERT INTO maintenance_windows(device_id, starts_at, ends_at, reason, alert_types, created_by)
+       VALUES ($1,$2,$3,$4,$5,$6)
+       RETURNING ${MAINTENANCE_COLUMNS}`,
+      [req.params.id, w.starts_at, w.ends_at, w.reason, w.alert_types, req.user?.username ?? null]
+    );
+    res.status(201).json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create maintenance window" });
+  }
+}
+
+/** Full update; to end a window early send ends_at = now. */
+export async function updateMaintenanceWindow(req: Request, res: Response) {
+  try {
+    const parsed = parseMaintenanceWindow(req.body);
+    if (!parsed.window) return res.status(400).json({ error: parsed.error });
+
+    const w = parsed.window;
+    const r = await pool.query(
+      `UPDATE maintenance_windows SET starts_at = $3, ends_at = $4, reason = $5, alert_types = $6
+       WHERE id = $1 AND device_id = $2
+       RETURNING ${MAINTENANCE_COLUMNS}`,
+      [req.params.windowId, req.params.id, w.starts_at, w.ends_at, w.reason, w.alert_types]
+    );
+    if (!r.rows[0]) return res.status(404).json({ error: "Maintenance window not found" });
+    res.json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update maintenance window" });
+  }
+}
+
+export async function deleteMaintenanceWindow(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`DELETE FROM maintenance_windows WHERE id = $1 AND device_id = $2 RETURNING id`, [
+      req.params.windowId,
+      req.params.id
+    ]);
+    if (!r.rows[0]) return res.status(404).json({ error: "Maintenance window not found" });
+    res.json({ ok: true, id: r.rows[0].id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete maintenance window" });
+  }
+}
@@ -0,0 +1,75 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { SmtpStage, deliverEmail, escapeHtml, smtpConfig } from "../email";
+
+/** SMTP configuration (no password) and the state of the email / webhook queues. */
+export async function getNotificationDiagnostics(req: Request, res: Response) {
+  try {
+    const [outbox, lastFailure, webhooks] = await Promise.all([
+      pool.query(
+        `SELECT COUNT(*) FILTER (WHERE status = 'pending' AND attempts = 0)::int AS pending,
+                COUNT(*) FILTER (WHERE status = 'pending' AND attempts > 0)::int AS retrying,
+                COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+                COUNT(*) FILTER (WHERE status = 'sent' AND sent_at > NOW() - interval '24 hours')::int AS sent_24h,
+                MAX(sent_at) AS last_sent_at
+         FROM email_outbox`
+      ),
+      pool.query(
+        `SELECT id, to_addr, subject, status, attempts, last_error, created_at
+         FROM email_outbox
+         WHERE last_error IS NOT NULL
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`
+      ),
+      pool.query(
+        `SELECT COUNT(*) FILTER (WHERE status = 'pending')::int AS pending,
+                COUNT(*) FILTER (WHERE status = 'failed')::int AS failed,
+                COUNT(*) FILTER (WHERE status = 'delivered' AND delivered_at > NOW() - interval '24 hours')::int AS delivered_24h
+         FROM webhook_deliveries`
+      )
+    ]);
+
+    res.json({
+      smtp: smtpConfig(),
+      email_outbox: { ...outbox.rows[0], last_failure: lastFailure.rows[0] || null },
+      webhooks: webhooks.rows[0]
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch notification diagnostics" });
+  }
+}
+
+/**
+ * Sends a test email right away (bypassing the outbox) and reports every SMTP stage.
+ * An SMTP failure is a diagnostic result, not a request error: the response is 200 with ok=false.
+ */
+export async function sendTestEmail(req: Request, res: Response) {
+  try {
+    const to = String(req.body?.to || "").trim();
+    if (!to) return res.status(400).json({ error: "to is required" });
+
+    const stages: SmtpStage[] = [];
+    const sentAt = new Date();
+    let error: string | null = null;
+    try {
+      await deliverEmail(
+        {
+          to,
+          subject: "[Water Monitoring] SMTP test email",
+          html:
+            `<p>This is a test email from the water monitoring backend.</p>` +
+            `<p>Sent by ${escapeHtml(req.user?.username || "admin")} at ${sentAt.toLocaleString()}.</p>`
+        },
+        stages
+      );
+    } catch (e: any) {
+      error = String(e?.message || e);
+    }
+
+    res.json({ ok: !error, error, to, smtp: smtpConfig(), stages });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to send test email" });
+  }
+}
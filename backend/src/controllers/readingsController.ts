@@ -1,10 +1,35 @@
 import { Request, Response } from "express";
 import { pool } from "../db";
+import { sendCsv } from "../csv";
+import {
+  AGGREGATE_BUCKETS,
+  Cursor,
+  MAX_AGGREGATE_BUCKETS,
+  MAX_READINGS_LIMIT,
+  READING_COLUMNS,
+  READING_METRICS,
+  decodeCursor,
+  parseFields,
+  parseLimit,
+  parseList,
+  parseMetrics
+} from "../readings";
+import { aggregateReadings, queryReadingsPage } from "../readingQueries";
+import { METRIC_CATALOG, parseMetricValues } from "../metrics";
+import { ingestReadingBatch, parseBatchBody } from "../readingBatch";
 
+/** Latest reading overall, or of one device with `?device_id=`. */
 export async function getLatestReading(req: Request, res: Response) {
   try {
+    const fields = parseFields(req.query.fields);
+    if ("error" in fields) return res.status(400).json({ error: fields.error });
+    const deviceId = req.query.device_id ? String(req.query.device_id) : null;
+
     const result = await pool.query(
-      "SELECT * FROM sensor_readings ORDER BY created_at DESC LIMIT 1"
+      `SELECT ${fields.columns} FROM sensor_readings
+       WHERE ($1::text IS NULL OR device_id = $1)
+       ORDER BY created_at DESC, id DESC LIMIT 1`,
+      [deviceId]
     );
     res.json(result.rows[0] || null);
   } catch (err) {
@@ -13,42 +38,210 @@ export async function getLatestReading(req: Request, res: Response) {
   }
 }
 
-export async function getReadings(req: Request, res: Response) {
+/** One row per device: the latest reading of every device (or of `?device_id=a,b`). */
+export async function getLatestReadingsByDevice(req: Request, res: Response) {
   try {
-    const { from, to } = req.query;
+    const fields = parseFields(req.query.fields);
+    if ("error" in fields) return res.status(400).json({ error: fields.error });
+    const deviceIds = parseList(req.query.device_id);
+
+    const result = await pool.query(
+      `SELECT DISTINCT ON (device_id) ${fields.columns} FROM sensor_readings
+       WHERE (cardinality($1::text[]) = 0 OR device_id = ANY($1))
+       ORDER BY device_id, created_at DESC, id DESC`,
+      [deviceIds]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch latest readings" });
+  }
+}
+
+function parseRange(query: Request["query"]) {
+  const from = query.from ? String(query.from) : null;
+  const to = query.to ? String(query.to) : null;
+  for (const [name, v] of Object.entries({ from, to })) {
+    if (v && isNaN(new Date(v).getTime())) return { error: `${name} must be an ISO date string` };
+  }
+  return { from, to };
+}
+
+/** bucket / from / to of an aggregate query. Defaults: the last 7 days in 1h buckets. */
+function parseAggregateQuery(query: Request["query"]) {
+  const bucket = String(query.bucket || "1h");
+  const seconds = AGGREGATE_BUCKETS[bucket];
+  if (!seconds) return { error: `bucket must be one of ${Object.keys(AGGREGATE_BUCKETS).join(", ")}` };
+
+  const to = query.to ? new Date(String(query.to)) : new Date();
+  const from = query.from ? new Date(String(query.from)) : new Date(to.getTime() - 7 * 24 * 3600000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return { error: "from / to must be dates" };
+  if (to <= from) return { error: "to must be after from" };
+  if ((to.getTime() - from.getTime()) / 1000 / seconds > MAX_AGGREGATE_BUCKETS) {
+    return { error: `Range too long for ${bucket} buckets (max ${MAX_AGGREGATE_BUCKETS}); use a larger bucket` };
+  }
+
+  const parsed = parseMetrics(query.fields);
+  if ("error" in parsed) return { error: parsed.error };
+  return { query: { deviceIds: parseList(query.device_id), from, to, bucket, metrics: parsed.metrics } };
+}
 
-    if (!from || !to) {
+/**
+ * Readings between `from` and `to` (both optional), paginated: at most `limit` rows per page and
+ * `next_cursor` (null on the last page) to pass back as `?cursor=` for the next one.
+ */
+export async function getReadings(req: Request, res: Response) {
+  try {
+    const range = parseRange(req.query);
+    if ("error" in range) {
       return res.status(400).json({
-        error: "Missing query params: from and to (ISO date string)",
-        example: "/api/readings?from=2025-01-01&to=2025-12-31",
+        error: range.error,
+        example: "/api/readings?device_id=st-01&from=2025-01-01&to=2025-12-31&limit=1000"
       });
     }
 
-    const result = await pool.query(
-      "SELECT * FROM sensor_readings WHERE created_at BETWEEN $1 AND $2 ORDER BY created_at ASC",
-      [from, to]
-    );
+    const fields = parseFields(req.query.fields);
+    if ("error" in fields) return res.status(400).json({ error: fields.error });
 
-    res.json(result.rows);
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) return res.status(400).json({ error: "limit must be a positive integer" });
+
+    const order = String(req.query.order || "asc").toLowerCase();
+    if (order !== "asc" && order !== "desc") return res.status(400).json({ error: "order must be asc or desc" });
+
+    const cursor = req.query.cursor ? decodeCursor(String(req.query.cursor)) : null;
+    if (req.query.cursor && !cursor) return res.status(400).json({ error: "Invalid cursor" });
+
+    const page = await queryReadingsPage({
+      deviceIds: parseList(req.query.device_id),
+      from: range.from,
+      to: range.to,
+      columns: fields.columns,
+      order,
+      cursor,
+      limit
+    });
+
+    res.json({ data: page.rows, next_cursor: page.next_cursor, limit, raw_since: page.raw_since });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch readings" });
   }
 }
 
+/**
+ * Per-bucket min / max / avg / count of each metric (`bucket` = 15m, 1h, 6h, 1d or 1w),
+ * one row per device and non-empty bucket. Defaults: the last 7 days in 1h buckets.
+ * 1h+ buckets read the hourly / daily rollups where available (see rollups.ts).
+ */
+export async function getReadingsAggregate(req: Request, res: Response) {
+  try {
+    const parsed = parseAggregateQuery(req.query);
+    if (!parsed.query) return res.status(400).json({ error: parsed.error });
+    const q = parsed.query;
+
+    const rows = await aggregateReadings(q);
+    const data = rows.map((r) => ({
+      device_id: r.device_id,
+      bucket: r.bucket,
+      count: r.count,
+      ...Object.fromEntries(
+        q.metrics.map((m) => [
+          m,
+          { min: r[`${m}_min`], max: r[`${m}_max`], avg: r[`${m}_avg`], count: r[`${m}_count`] }
+        ])
+      )
+    }));
+
+    res.json({ bucket: q.bucket, from: q.from, to: q.to, data });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to aggregate readings" });
+  }
+}
+
+/**
+ * CSV download of a device's readings (`device_id` required, `from` / `to` default to the last 7 days).
+ * Raw rows are streamed page by page; with `bucket` the aggregate stats are exported instead.
+ */
+export async function exportReadingsCsv(req: Request, res: Response) {
+  try {
+    const deviceIds = parseList(req.query.device_id);
+    if (!deviceIds.length) return res.status(400).json({ error: "device_id is required" });
+
+    const to = req.query.to ? String(req.query.to) : new Date().toISOString();
+    const from = req.query.from ? String(req.query.from) : new Date(Date.now() - 7 * 24 * 3600000).toISOString();
+    const name = `readings-${deviceIds.join("_")}-${from.slice(0, 10)}-${to.slice(0, 10)}`;
+
+    if (req.query.bucket) {
+      const parsed = parseAggregateQuery({ ...req.query, from, to });
+      if (!parsed.query) return res.status(400).json({ error: parsed.error });
+      const q = parsed.query;
+      const columns = [
+        "device_id",
+        "bucket",
+        "count",
+        ...q.metrics.flatMap((m) => [`${m}_min`, `${m}_max`, `${m}_avg`, `${m}_count`])
+      ];
+      const buckets = async function* () {
+        yield await aggregateReadings(q);
+      };
+      return await sendCsv(res, `${name}-${q.bucket}.csv`, columns, buckets());
+    }
+
+    const range = parseRange({ from, to });
+    if ("error" in range) return res.status(400).json({ error: range.error });
+
+    const pages = async function* () {
+      let cursor: Cursor | null = null;
+      do {
+        const page = await queryReadingsPage({
+          deviceIds,
+          from: range.from,
+          to: range.to,
+          columns: READING_COLUMNS,
+          order: "asc",
+          cursor,
+          limit: MAX_READINGS_LIMIT
+        });
+        yield page.rows;
+        cursor = page.next_cursor ? decodeCursor(page.next_cursor) : null;
+      } while (cursor);
+    };
+    await sendCsv(res, `${name}.csv`, ["device_id", "created_at", ...READING_METRICS], pages());
+  } catch (err) {
+    console.error(err);
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({ error: "Failed to export readings" });
+  }
+}
+
+/**
+ * Stores one reading posted by a device: any catalog metrics (see metrics.ts), missing = null.
+ * A value that is not a number or is outside the metric's valid range is rejected.
+ */
 export async function createReading(req: Request, res: Response) {
   try {
-    const { device_id, salinity, ph, temperature, battery } = req.body;
+    const { device_id } = req.body;
 
     if (!device_id) {
       return res.status(400).json({ error: "device_id is required" });
     }
 
+    if (String(device_id) !== req.deviceKey?.device_id) {
+      return res.status(403).json({ error: "Device key does not belong to this device_id" });
+    }
+
+    const parsed = parseMetricValues(req.body);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+
     const result = await pool.query(
-      `INSERT INTO sensor_readings(device_id, salinity, ph, temperature, battery)
-       VALUES ($1,$2,$3,$4,$5) RETURNING *`,
-      [device_id, salinity, ph, temperature, battery]
+      `INSERT INTO sensor_readings(device_id, ${READING_METRICS.join(", ")})
+       VALUES ($1, ${READING_METRICS.map((_, i) => `$${i + 2}`).join(", ")})
+       ON CONFLICT DO NOTHING RETURNING *`,
+      [device_id, ...parsed.values]
     );
+    if (!result.rows.length) return res.status(409).json({ error: "A reading of this device at this time already exists" });
 
     res.status(201).json(result.rows[0]);
   } catch (err) {
@@ -56,3 +249,37 @@ export async function createReading(req: Request, res: Response) {
     res.status(500).json({ error: "Failed to create reading" });
   }
 }
+
+/**
+ * Stores a batch of buffered readings of the key's device: a JSON array or NDJSON, each item
+ * `{ created_at, <metric>: value, ... }` (see readingBatch.ts). Invalid items are reported per item
+ * and do not fail the batch.
+ */
+export async function createReadingsBatch(req: Request, res: Response) {
+  try {
+    const parsed = parseBatchBody(req.body);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+
+    const { results, alertsCreated } = await ingestReadingBatch(req.deviceKey!.device_id, parsed.items);
+    const count = (status: string) => results.filter((r) => r.status === status).length;
+    const inserted = count("inserted");
+
+    res.status(inserted ? 201 : 200).json({
+      device_id: req.deviceKey!.device_id,
+      received: results.length,
+      inserted,
+      duplicates: count("duplicate"),
+      rejected: count("rejected"),
+      alerts_created: alertsCreated,
+      results
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to store readings batch" });
+  }
+}
+
+/** The metric catalog: key, name, unit, precision and valid range of every stored metric. */
+export function getMetricCatalog(req: Request, res: Response) {
+  res.json(METRIC_CATALOG);
+}
@@ -0,0 +1,31 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { syncDevice } from "../thingspeak";
+
+/** ThingSpeak sync progress of a device (null before its first sync). */
+export async function getThingspeakSync(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT * FROM thingspeak_sync WHERE device_id = $1`, [req.params.id]);
+    res.json(r.rows[0] || null);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch sync status" });
+  }
+}
+
+/** Runs a sync of the device right away (same as the worker does). ThingSpeak errors are in `error`. */
+export async function runThingspeakSync(req: Request, res: Response) {
+  try {
+    const d = await pool.query(`SELECT id, channel_id, read_api_key, field_map FROM devices WHERE id = $1`, [req.params.id]);
+    const device = d.rows[0];
+    if (!device) return res.status(404).json({ error: "Device not found" });
+    if (!device.channel_id) return res.status(400).json({ error: "Device has no ThingSpeak channel_id" });
+
+    const result = await syncDevice(device);
+    if (!result) return res.status(409).json({ error: "A sync of this device is already running" });
+    res.json(result);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to sync device" });
+  }
+}
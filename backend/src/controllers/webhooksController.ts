@@ -0,0 +1,148 @@
+import { Request, Response } from "express";
+import { pool } from "../db";
+import { parseLimit } from "../readings";
+import { WEBHOOK_COLUMNS, enqueueTestWebhook, generateWebhookSecret } from "../webhooks";
+
+function parseUrl(v: any) {
+  try {
+    const u = new URL(String(v || "").trim());
+    return u.protocol === "http:" || u.protocol === "https:" ? u.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function getWebhooks(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks ORDER BY created_at ASC, id ASC`);
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+}
+
+export async function createWebhook(req: Request, res: Response) {
+  try {
+    const url = parseUrl(req.body?.url);
+    if (!url) return res.status(400).json({ error: "url must be an http(s) URL" });
+
+    const secret = String(req.body?.secret || "").trim() || generateWebhookSecret();
+    const r = await pool.query(
+      `INSERT INTO webhooks(device_id, url, secret, description, enabled, created_by)
+       VALUES ($1,$2,$3,$4,$5,$6)
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [
+        String(req.body?.device_id || "").trim() || null,
+        url,
+        secret,
+        req.body?.description ?? null,
+        req.body?.enabled ?? true,
+        req.user?.username ?? null
+      ]
+    );
+
+    // The signing secret is only returned here (and on rotation)
+    res.status(201).json({ ...r.rows[0], secret });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+}
+
+/** Full update of url / device / description / enabled. `rotate_secret: true` issues a new secret. */
+export async function updateWebhook(req: Request, res: Response) {
+  try {
+    const url = parseUrl(req.body?.url);
+    if (!url) return res.status(400).json({ error: "url must be an http(s) URL" });
+
+    const secret = req.body?.rotate_secret ? generateWebhookSecret() : null;
+    const r = await pool.query(
+      `UPDATE webhooks SET
+          device_id = $2,
+          url = $3,
+          description = $4,
+          enabled = $5,
+          secret = COALESCE($6, secret),
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING ${WEBHOOK_COLUMNS}`,
+      [
+        req.params.id,
+        String(req.body?.device_id || "").trim() || null,
+        url,
+        req.body?.description ?? null,
+        req.body?.enabled ?? true,
+        secret
+      ]
+    );
+    if (!r.rows[0]) return res.status(404).json({ error: "Webhook not found" });
+    res.json(secret ? { ...r.rows[0], secret } : r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update webhook" });
+  }
+}
+
+/** Deletes the subscription and its delivery log. */
+export async function deleteWebhook(req: Request, res: Response) {
+  try {
+    const r = await pool.query(`DELETE FROM webhooks WHERE id = $1 RETURNING id`, [req.params.id]);
+    if (!r.rows[0]) return res.status(404).json({ error: "Webhook not found" });
+    res.json({ ok: true, id: r.rows[0].id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+}
+
+export async function testWebhook(req: Request, res: Response) {
+  try {
+    const w = await pool.query(`SELECT id FROM webhooks WHERE id = $1`, [req.params.id]);
+    if (!w.rows[0]) return res.status(404).json({ error: "Webhook not found" });
+    res.status(202).json(await enqueueTestWebhook(req.params.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to queue test delivery" });
+  }
+}
+
+/** Delivery log, newest first. Optional filter: ?status=pending|delivered|failed */
+export async function getWebhookDeliveries(req: Request, res: Response) {
+  try {
+    const { status } = req.query;
+    const lim = parseLimit(req.query.limit, 50);
+    if (lim === null) return res.status(400).json({ error: "limit must be a positive integer" });
+    const r = await pool.query(
+      `SELECT id, webhook_id, alert_id, event, status, attempts, next_attempt_at,
+              last_status_code, last_error, created_at, delivered_at
+       FROM webhook_deliveries
+       WHERE webhook_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC, id DESC
+       LIMIT $3`,
+      [req.params.id, status || null, Math.min(lim, 200)]
+    );
+    res.json(r.rows);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+  }
+}
+
+/** Re-queue a failed (or delivered) delivery for immediate retry. */
+export async function retryWebhookDelivery(req: Request, res: Response) {
+  try {
+    const r = await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = NOW(), last_error = NULL
+       WHERE id = $1 AND webhook_id = $2 AND status <> 'pending'
+       RETURNING id, webhook_id, alert_id, event, status, attempts, next_attempt_at, created_at`,
+      [req.params.deliveryId, req.params.id]
+    );
+    if (!r.rows[0]) return res.status(404).json({ error: "Delivery not found or already pending" });
+    res.json(r.rows[0]);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to retry delivery" });
+  }
+}
@@ -0,0 +1,53 @@
+import { Response } from "express";
+
+/** Minimal CSV writer (RFC 4180: CRLF rows, quotes doubled, fields quoted when needed). */
+
+export function csvCell(v: any) {
+  if (v === null || v === undefined) return "";
+  const s = v instanceof Date ? v.toISOString() : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function csvRow(values: any[]) {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+export function toCsv(columns: string[], rows: Record<string, any>[]) {
+  return csvRow(columns) + rows.map((r) => csvRow(columns.map((c) => r[c]))).join("");
+}
+
+/** Byte order mark: without it Excel opens UTF-8 CSV as ANSI and garbles Vietnamese text. */
+export const CSV_BOM = "\uFEFF";
+
+/**
+ * Streams a CSV download (BOM + header, then each batch as it is produced), waiting for the
+ * client to drain between batches. Errors after the first write can only abort the response.
+ */
+export async function sendCsv(
+  res: Response,
+  filename: string,
+  columns: string[],
+  batches: AsyncIterable<Record<string, any>[]>
+) {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename.replace(/[^\w.-]/g, "_")}"`);
+  res.write(CSV_BOM + csvRow(columns));
+  for await (const rows of batches) {
+    // Client went away: stop querying
+    if (res.destroyed) return;
+    if (!rows.length) continue;
+    if (!res.write(rows.map((r) => csvRow(columns.map((c) => r[c]))).join(""))) {
+      // Whichever fires first removes both listeners, so long exports do not pile them up
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off("drain", done);
+          res.off("close", done);
+          resolve();
+        };
+        res.on("drain", done);
+        res.on("close", done);
+      });
+    }
+  }
+  res.end();
+}
@@ -1,9 +1,60 @@
-import { Pool } from "pg";
+import { Pool, defaults, types } from "pg";
+import { randomUUID } from "crypto";
 import dotenv from "dotenv";
 
 dotenv.config();
 
+// sensor_readings.created_at (and the rollup buckets) are TIMESTAMP columns holding UTC time. Read and
+// write them as UTC whatever the process time zone (node-pg would use local time for both).
+const TIMESTAMP_OID = 1114;
+types.setTypeParser(TIMESTAMP_OID, (v) => new Date(`${v.replace(" ", "T")}Z`));
+defaults.parseInputDatesAsUTC = true;
+
 export const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
   ssl: process.env.NODE_ENV === "production" ? { rejectUnauthorized: false } : false,
+  // Fail instead of waiting forever when every connection is busy
+  connectionTimeoutMillis: 10000,
 });
+
+// A lease is renewed while its holder runs; one left by a dead process expires after LEASE_TTL_MS
+const LEASE_TTL_MS = 2 * 60 * 1000;
+const LEASE_RENEW_MS = 30 * 1000;
+
+/**
+ * Run `fn` only if this instance wins the named lease (a job_leases row).
+ * Taking, renewing and releasing the lease are single statements, so no connection is held
+ * while `fn` runs. Returns false (without running `fn`) when another holder has the lease.
+ */
+export async function withLease(name: string, fn: () => Promise<void>): Promise<boolean> {
+  const owner = randomUUID();
+  const taken = await pool.query(
+    `INSERT INTO job_leases(name, owner, expires_at)
+     VALUES ($1, $2, NOW() + make_interval(secs => $3))
+     ON CONFLICT (name) DO UPDATE SET owner = EXCLUDED.owner, expires_at = EXCLUDED.expires_at
+       WHERE job_leases.expires_at < NOW()
+     RETURNING name`,
+    [name, owner, LEASE_TTL_MS / 1000]
+  );
+  if (!taken.rowCount) return false;
+
+  const renew = setInterval(() => {
+    pool
+      .query(`UPDATE job_leases SET expires_at = NOW() + make_interval(secs => $3) WHERE name = $1 AND owner = $2`, [
+        name,
+        owner,
+        LEASE_TTL_MS / 1000
+      ])
+      .catch((e) => console.error(`Failed to renew lease ${name}:`, e));
+  }, LEASE_RENEW_MS);
+
+  try {
+    await fn();
+  } finally {
+    clearInterval(renew);
+    await pool
+      .query(`DELETE FROM job_leases WHERE name = $1 AND owner = $2`, [name, owner])
+      .catch((e) => console.error(`Failed to release lease ${name}:`, e));
+  }
+  return true;
+}
@@ -0,0 +1,26 @@
+import crypto from "crypto";
+import { pool } from "./db";
+
+/**
+ * Per-device write keys for reading ingestion.
+ * Only a SHA-256 hash of the key is stored; the plain key is shown once when issued.
+ */
+export function generateDeviceKey() {
+  const key = "wmk_" + crypto.randomBytes(24).toString("base64url");
+  return { key, prefix: key.slice(0, 10), hash: hashDeviceKey(key) };
+}
+
+export function hashDeviceKey(key: string) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/** Returns the active (not revoked) key row matching the plain key, and stamps last_used_at. */
+export async function findActiveDeviceKey(key: string) {
+  const r = await pool.query(
+    `UPDATE device_api_keys SET last_used_at = NOW()
+     WHERE key_hash = $1 AND revoked_at IS NULL
+     RETURNING id, device_id`,
+    [hashDeviceKey(key)]
+  );
+  return (r.rows[0] as { id: string; device_id: string } | undefined) || null;
+}
@@ -0,0 +1,209 @@
+import { pool } from "./db";
+import { METRICS } from "./alertRules";
+import { escapeHtml } from "./email";
+import { enqueueEmail } from "./emailOutbox";
+
+/**
+ * Daily / weekly digest emails.
+ * Devices opt in with alert_settings.digest_frequency ('daily' | 'weekly'); the digest goes to
+ * digest_email_to, or to the alert recipients (email_to) when that is empty.
+ * Devices sharing the same recipients and frequency are summarized in one email.
+ *
+ * Schedule (server local time, set TZ): every day at DIGEST_HOUR (default 7), weekly digests
+ * on DIGEST_WEEKDAY (0 = Sunday, default 1 = Monday). A digest is due when none was sent since
+ * the latest scheduled slot.
+ */
+
+export type DigestPeriod = "daily" | "weekly";
+
+export const DIGEST_PERIODS: DigestPeriod[] = ["daily", "weekly"];
+
+const PERIOD_HOURS: Record<DigestPeriod, number> = { daily: 24, weekly: 24 * 7 };
+
+function envInt(k: string, fallback: number, min: number, max: number) {
+  const raw = (process.env[k] || "").trim();
+  const n = Number(raw);
+  return raw && Number.isInteger(n) && n >= min && n <= max ? n : fallback;
+}
+
+/** Most recent scheduled send time at or before `now`. */
+export function latestDigestSlot(period: DigestPeriod, now = new Date()) {
+  const hour = envInt("DIGEST_HOUR", 7, 0, 23);
+  const slot = new Date(now);
+  slot.setHours(hour, 0, 0, 0);
+  if (slot > now) slot.setDate(slot.getDate() - 1);
+  if (period === "weekly") {
+    const weekday = envInt("DIGEST_WEEKDAY", 1, 0, 6);
+    slot.setDate(slot.getDate() - ((slot.getDay() - weekday + 7) % 7));
+  }
+  return slot;
+}
+
+type MetricStats = { min: number | null; max: number | null; avg: number | null };
+
+export type StationDigest = {
+  device_id: string;
+  name: string;
+  location: string | null;
+  readings: number;
+  uptime_pct: number;
+  last_reading_at: string | null;
+  metrics: Record<string, MetricStats>;
+  alerts: { type: string; severity: string; count: number }[];
+  open_alerts: number;
+};
+
+/** Reading stats, alert counts and uptime (share of hours with at least one reading) for one station. */
+export async function buildStationDigest(deviceId: string, since: Date, until: Date): Promise<StationDigest> {
+  const metricCols = Object.keys(METRICS)
+    .map((m) => `MIN(${m}) AS ${m}_min, MAX(${m}) AS ${m}_max, AVG(${m}) AS ${m}_avg`)
+    .join(",\n            ");
+  const [device, stats, alerts, open] = await Promise.all([
+    pool.query(`SELECT name, location_label FROM devices WHERE id = $1`, [deviceId]),
+    pool.query(
+      `SELECT COUNT(*)::int AS readings,
+              COUNT(DISTINCT date_trunc('hour', created_at))::int AS hours_with_data,
+              MAX(created_at) AS last_reading_at,
+              ${metricCols}
+       FROM sensor_readings
+       WHERE device_id = $1 AND created_at > $2 AND created_at <= $3`,
+      [deviceId, since, until]
+    ),
+    pool.query(
+      `SELECT type, severity, COUNT(*)::int AS count
+       FROM alerts
+       WHERE device_id = $1 AND created_at > $2 AND created_at <= $3
+       GROUP BY type, severity
+       ORDER BY count DESC, type`,
+      [deviceId, since, until]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS n FROM alerts WHERE device_id = $1 AND status <> 'resolved'`, [deviceId])
+  ]);
+
+  const s = stats.rows[0];
+  const hours = Math.max(1, Math.round((until.getTime() - since.getTime()) / 3600000));
+  const num = (v: any) => (v === null || v === undefined ? null : Number(v));
+  const metrics: Record<string, MetricStats> = {};
+  for (const m of Object.keys(METRICS)) {
+    metrics[m] = { min: num(s[`${m}_min`]), max: num(s[`${m}_max`]), avg: num(s[`${m}_avg`]) };
+  }
+
+  return {
+    device_id: deviceId,
+    name: device.rows[0]?.name || deviceId,
+    location: device.rows[0]?.location_label || null,
+    readings: s.readings,
+    uptime_pct: Math.min(100, Math.round((s.hours_with_data / hours) * 1000) / 10),
+    last_reading_at: s.last_reading_at ? new Date(s.last_reading_at).toISOString() : null,
+    metrics,
+    alerts: alerts.rows,
+    open_alerts: open.rows[0].n
+  };
+}
+
+function fmt(v: number | null, unit: string) {
+  return v === null ? "—" : `${Math.round(v * 100) / 100}${unit}`;
+}
+
+export function renderDigestHtml(period: DigestPeriod, since: Date, until: Date, stations: StationDigest[]) {
+  const th = `style="text-align:left;padding:4px 12px 4px 0;border-bottom:1px solid #ddd"`;
+  const td = `style="padding:4px 12px 4px 0;border-bottom:1px solid #eee"`;
+
+  const sections = stations.map((st) => {
+    // Only the metrics the station reported in the period
+    const metricRows = Object.entries(METRICS)
+      .filter(([m]) => st.metrics[m].avg !== null)
+      .map(
+        ([m, { label, unit }]) =>
+          `<tr><td ${td}>${label}</td><td ${td}>${fmt(st.metrics[m].min, unit)}</td>` +
+          `<td ${td}>${fmt(st.metrics[m].avg, unit)}</td><td ${td}>${fmt(st.metrics[m].max, unit)}</td></tr>`
+      )
+      .join("");
+    const alertRows = st.alerts.length
+      ? st.alerts
+          .map((a) => `<li><b>${escapeHtml(a.type)}</b> (${escapeHtml(a.severity)}): ${a.count}</li>`)
+          .join("")
+      : "<li>No alerts</li>";
+
+    return `
+      <h3 style="margin-bottom:4px">${escapeHtml(st.name)} <span style="color:#666;font-weight:normal">(${escapeHtml(st.device_id)})</span></h3>
+      ${st.location ? `<div style="color:#666">${escapeHtml(st.location)}</div>` : ""}
+      <p>
+        <b>Uptime:</b> ${st.uptime_pct}% · <b>Readings:</b> ${st.readings} ·
+        <b>Last reading:</b> ${st.last_reading_at ? new Date(st.last_reading_at).toLocaleString() : "never"} ·
+        <b>Unresolved alerts:</b> ${st.open_alerts}
+      </p>
+      <table style="border-collapse:collapse">
+        <tr><th ${th}>Metric</th><th ${th}>Min</th><th ${th}>Avg</th><th ${th}>Max</th></tr>
+        ${metricRows || `<tr><td ${td} colspan="4">No readings</td></tr>`}
+      </table>
+      <p style="margin-bottom:4px"><b>Alerts</b></p>
+      <ul style="margin-top:0">${alertRows}</ul>`;
+  });
+
+  return `
+    <div style="font-family: Arial, sans-serif; line-height: 1.6">
+      <h2>Water Monitoring ${period === "daily" ? "Daily" : "Weekly"} Digest</h2>
+      <p>${since.toLocaleString()} – ${until.toLocaleString()}</p>
+      ${sections.join("<hr/>")}
+    </div>
+  `;
+}
+
+export async function buildDigestEmail(period: DigestPeriod, deviceIds: string[], until = new Date()) {
+  const since = new Date(until.getTime() - PERIOD_HOURS[period] * 3600000);
+  const stations: StationDigest[] = [];
+  for (const id of deviceIds) stations.push(await buildStationDigest(id, since, until));
+
+  const alertCount = stations.reduce((n, st) => n + st.alerts.reduce((m, a) => m + a.count, 0), 0);
+  const subject =
+    `[Water Monitoring] ${period === "daily" ? "Daily" : "Weekly"} digest: ` +
+    `${stations.length} station(s), ${alertCount} alert(s)`;
+  return { subject, html: renderDigestHtml(period, since, until, stations), stations };
+}
+
+/**
+ * Queue every due digest (one email per recipient list + frequency) into the email outbox.
+ * Devices that just enabled digests start with the next scheduled slot.
+ */
+export async function sendDueDigests(now = new Date()) {
+  const r = await pool.query(
+    `SELECT device_id, digest_frequency, digest_last_sent_at,
+            COALESCE(NULLIF(TRIM(digest_email_to), ''), email_to) AS recipients
+     FROM alert_settings
+     WHERE enabled AND digest_frequency IN ('daily', 'weekly')
+     ORDER BY device_id`
+  );
+
+  const groups = new Map<string, { period: DigestPeriod; to: string; deviceIds: string[] }>();
+  for (const row of r.rows) {
+    const to = String(row.recipients || "")
+      .split(",")
+      .map((s: string) => s.trim().toLowerCase())
+      .filter(Boolean)
+      .sort()
+      .join(", ");
+    if (!to) continue;
+
+    const period = row.digest_frequency as DigestPeriod;
+    if (!row.digest_last_sent_at) {
+      await pool.query(`UPDATE alert_settings SET digest_last_sent_at = $2 WHERE device_id = $1`, [row.device_id, now]);
+      continue;
+    }
+    if (new Date(row.digest_last_sent_at) >= latestDigestSlot(period, now)) continue;
+
+    const key = `${period}|${to}`;
+    if (!groups.has(key)) groups.set(key, { period, to, deviceIds: [] });
+    groups.get(key)!.deviceIds.push(row.device_id);
+  }
+
+  for (const g of groups.values()) {
+    const { subject, html } = await buildDigestEmail(g.period, g.deviceIds, now);
+    await enqueueEmail({ to: g.to, subject, html });
+    await pool.query(`UPDATE alert_settings SET digest_last_sent_at = $2 WHERE device_id = ANY($1::text[])`, [
+      g.deviceIds,
+      now
+    ]);
+  }
+  return groups.size;
+}
@@ -1,10 +1,19 @@
+import crypto from "crypto";
 import net from "net";
 import tls from "tls";
 
+export type EmailAttachment = {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string; // default application/octet-stream
+};
+
 export type SendEmailParams = {
   to: string; // comma-separated
   subject: string;
   html: string;
+  text?: string; // plain-text alternative; derived from html when missing
+  attachments?: EmailAttachment[];
 };
 
 function env(k: string) {
@@ -21,34 +30,73 @@ function hasSmtpEnv() {
 
 type SocketLike = net.Socket | tls.TLSSocket;
 
-async function readLine(sock: SocketLike, timeoutMs: number) {
-  return new Promise<string>((resolve, reject) => {
-    let buf = "";
-    const onData = (chunk: Buffer) => {
-      buf += chunk.toString("utf8");
-      if (buf.includes("\n")) {
-        cleanup();
-        resolve(buf);
-      }
-    };
-    const onErr = (e: any) => {
-      cleanup();
-      reject(e);
-    };
-    const t = setTimeout(() => {
-      cleanup();
-      reject(new Error("SMTP timeout"));
-    }, timeoutMs);
-    const cleanup = () => {
-      clearTimeout(t);
+/** Splits the first complete SMTP reply off the buffer. Multi-line replies continue with "250-..." lines. */
+function takeReply(buf: string): { reply: string; rest: string } | null {
+  let pos = 0;
+  for (;;) {
+    const nl = buf.indexOf("\n", pos);
+    if (nl < 0) return null;
+    const line = buf.slice(pos, nl);
+    pos = nl + 1;
+    if (!/^\d{3}-/.test(line)) return { reply: buf.slice(0, pos), rest: buf.slice(pos) };
+  }
+}
+
+/**
+ * Buffered reply reader. It stays attached to the socket between commands, so
+ * replies split across packets (or several lines) are never lost.
+ */
+function createReader(sock: SocketLike) {
+  let buf = "";
+  let closed: Error | null = null;
+  let notify: (() => void) | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buf += chunk.toString("utf8");
+    notify?.();
+  };
+  const onErr = (e: Error) => {
+    closed = e;
+    notify?.();
+  };
+  const onClose = () => {
+    closed = closed || new Error("SMTP connection closed");
+    notify?.();
+  };
+  sock.on("data", onData);
+  sock.on("error", onErr);
+  sock.on("close", onClose);
+
+  return {
+    read(timeoutMs: number) {
+      return new Promise<string>((resolve, reject) => {
+        const t = setTimeout(() => {
+          notify = null;
+          reject(new Error("SMTP timeout"));
+        }, timeoutMs);
+        const check = () => {
+          const r = takeReply(buf);
+          if (!r && !closed) return;
+          clearTimeout(t);
+          notify = null;
+          if (!r) return reject(closed);
+          buf = r.rest;
+          resolve(r.reply);
+        };
+        notify = check;
+        check();
+      });
+    },
+    // Stop consuming data (STARTTLS hands the socket over to TLS). The error listener stays
+    // so a late socket error is never unhandled.
+    detach() {
       sock.off("data", onData);
-      sock.off("error", onErr);
-    };
-    sock.on("data", onData);
-    sock.on("error", onErr);
-  });
+    }
+  };
 }
 
+type Reader = ReturnType<typeof createReader>;
+
 async function write(sock: SocketLike, s: string) {
   return new Promise<void>((resolve, reject) => {
     sock.write(s, (err) => (err ? reject(err) : resolve()));
@@ -60,37 +108,217 @@ function extractCode(resp: string): number {
   return m ? Number(m[1]) : 0;
 }
 
-async function expect(sock: SocketLike, okCodes: number[], timeoutMs = 10000) {
-  const resp = await readLine(sock, timeoutMs);
+async function expect(reader: Reader, okCodes: number[], timeoutMs = 10000) {
+  const resp = await reader.read(timeoutMs);
   const code = extractCode(resp);
   if (!okCodes.includes(code)) {
-    throw new Error(`SMTP unexpected response (${code}): ${resp}`);
+    throw new Error(`SMTP unexpected response (${code}): ${resp.trim()}`);
   }
   return resp;
 }
 
-function makeMime({ from, to, subject, html }: { from: string; to: string; subject: string; html: string }) {
-  const boundary = "----wm" + Math.random().toString(16).slice(2);
+// --- MIME encoding ---
+
+export function escapeHtml(s: any) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** RFC 2047 encoded-word(s) for non-ASCII header text (e.g. Vietnamese subjects). */
+export function encodeHeader(s: string) {
+  if (/^[\x20-\x7e]*$/.test(s)) return s;
+  const words: string[] = [];
+  let chunk = "";
+  for (const ch of Array.from(s)) {
+    // 45 bytes -> 60 base64 chars, keeps each encoded word under 75 chars
+    if (Buffer.byteLength(chunk + ch, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${b64(w)}?=`).join("\r\n ");
+}
+
+/** Quoted-printable (RFC 2045): UTF-8, CRLF line breaks, soft breaks at 76 chars. */
+export function quotedPrintable(s: string) {
+  return s
+    .replace(/\r\n|\r|\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const bytes = Buffer.from(line, "utf8");
+      let out = "";
+      let len = 0;
+      bytes.forEach((b, i) => {
+        const last = i === bytes.length - 1;
+        const literal = (b >= 33 && b <= 126 && b !== 61) || ((b === 32 || b === 9) && !last);
+        const token = literal ? String.fromCharCode(b) : "=" + b.toString(16).toUpperCase().padStart(2, "0");
+        if (len + token.length > 75) {
+          out += "=\r\n";
+          len = 0;
+        }
+        out += token;
+        len += token.length;
+      });
+      return out;
+    })
+    .join("\r\n");
+}
+
+function base64Lines(content: string | Buffer) {
+  const raw = (typeof content === "string" ? Buffer.from(content, "utf8") : content).toString("base64");
+  return raw.replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+/** Plain-text fallback for HTML bodies. */
+export function htmlToText(html: string) {
+  return html
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "$2 ($1)")
+    .replace(/<\/(p|div|h\d|li|tr|table|ul)>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((l) => l.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function boundary() {
+  return "----wm" + crypto.randomBytes(12).toString("hex");
+}
+
+function makeMime({
+  from,
+  to,
+  subject,
+  html,
+  text,
+  attachments
+}: SendEmailParams & { from: string }) {
+  const alt = boundary();
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alt}"`,
+    "",
+    `--${alt}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    quotedPrintable(text ?? htmlToText(html)),
+    `--${alt}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    quotedPrintable(html),
+    `--${alt}--`
+  ].join("\r\n");
+
+  let body = alternative;
+  if (attachments?.length) {
+    const mixed = boundary();
+    body = [
+      `Content-Type: multipart/mixed; boundary="${mixed}"`,
+      "",
+      `--${mixed}`,
+      alternative,
+      ...attachments.flatMap((a) => {
+        const name = encodeHeader(a.filename).replace(/"/g, "");
+        return [
+          `--${mixed}`,
+          `Content-Type: ${a.contentType || "application/octet-stream"}; name="${name}"`,
+          "Content-Transfer-Encoding: base64",
+          `Content-Disposition: attachment; filename="${name}"`,
+          "",
+          base64Lines(a.content)
+        ];
+      }),
+      `--${mixed}--`
+    ].join("\r\n");
+  }
+
+  const domain = from.split("@")[1]?.replace(/>.*/, "") || "water-monitoring";
   const headers = [
     `From: ${from}`,
     `To: ${to}`,
-    `Subject: ${subject}`,
-    "MIME-Version: 1.0",
-    `Content-Type: multipart/alternative; boundary=\"${boundary}\"` ,
-    ""
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomBytes(16).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0"
   ].join("\r\n");
 
-  const body = [
-    `--${boundary}`,
-    "Content-Type: text/html; charset=utf-8",
-    "Content-Transfer-Encoding: 7bit",
-    "",
-    html,
-    `--${boundary}--`,
-    ""
-  ].join("\r\n");
+  return headers + "\r\n" + body + "\r\n";
+}
+
+/** SMTP transparency (RFC 5321 4.5.2): lines starting with "." get an extra dot. */
+function dotStuff(data: string) {
+  return data.replace(/^\./, "..").replace(/\r\n\./g, "\r\n..");
+}
+
+export type SmtpStageName =
+  | "config"
+  | "connect"
+  | "greeting"
+  | "ehlo"
+  | "starttls"
+  | "auth"
+  | "mail_from"
+  | "rcpt"
+  | "data"
+  | "quit";
+
+/** Result of one step of an SMTP session (see deliverEmail's `trace`). */
+export type SmtpStage = { stage: SmtpStageName; ok: boolean; ms: number; detail: string };
+
+/** SMTP settings as configured in the environment, without the password. */
+export function smtpConfig() {
+  const port = Number(env("SMTP_PORT")) || null;
+  const startTls = env("SMTP_STARTTLS").toLowerCase() === "true";
+  return {
+    configured: Boolean(hasSmtpEnv()),
+    missing: ["SMTP_HOST", "SMTP_PORT", "SMTP_USER", "SMTP_PASS", "SMTP_FROM"].filter((k) => !env(k)),
+    host: env("SMTP_HOST") || null,
+    port,
+    tls_mode: port === 465 ? "smtps" : startTls ? "starttls" : "none",
+    user: env("SMTP_USER") || null,
+    password_set: Boolean(env("SMTP_PASS")),
+    from: env("SMTP_FROM") || null
+  };
+}
+
+function firstLine(resp: string) {
+  return resp.trim().split(/\r?\n/)[0];
+}
 
-  return headers + "\r\n" + body;
+/** Resolves on `event`, rejects on socket error or after timeoutMs. */
+function waitFor(sock: SocketLike, event: "connect" | "secureConnect", timeoutMs = 10000) {
+  return new Promise<void>((resolve, reject) => {
+    const t = setTimeout(() => {
+      sock.destroy();
+      reject(new Error(`SMTP ${event === "connect" ? "connection" : "TLS handshake"} timed out`));
+    }, timeoutMs);
+    sock.once(event, () => {
+      clearTimeout(t);
+      resolve();
+    });
+    sock.once("error", (e) => {
+      clearTimeout(t);
+      reject(e);
+    });
+  });
 }
 
 /**
@@ -98,97 +326,144 @@ function makeMime({ from, to, subject, html }: { from: string; to: string; subje
  * Supports:
  * - SMTPS (port 465) via TLS
  * - SMTP + STARTTLS (commonly 587) if SMTP_STARTTLS=true
+ *
+ * Throws on any failure (not configured, connection, SMTP error) so callers can record the reason.
+ * When `trace` is given, every stage of the session is appended to it (diagnostics).
  */
-export async function sendEmail(params: SendEmailParams): Promise<boolean> {
-  if (!hasSmtpEnv()) {
-    console.warn(
-      "⚠️ SMTP is not configured (SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS/SMTP_FROM). Skipping email send."
-    );
-    return false;
-  }
-
-  const host = env("SMTP_HOST");
-  const port = Number(env("SMTP_PORT"));
-  const user = env("SMTP_USER");
-  const pass = env("SMTP_PASS");
-  const from = env("SMTP_FROM");
-  const useStartTls = env("SMTP_STARTTLS").toLowerCase() === "true";
-
-  const recipients = params.to
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
-  if (recipients.length === 0) return false;
-
-  // Connect
-  let sock: SocketLike;
-  if (port === 465) {
-    sock = tls.connect({ host, port, servername: host, rejectUnauthorized: false });
-    await new Promise<void>((resolve, reject) => {
-      (sock as tls.TLSSocket).once("secureConnect", () => resolve());
-      sock.once("error", reject);
-    });
-  } else {
-    sock = net.connect({ host, port });
-    await new Promise<void>((resolve, reject) => {
-      sock.once("connect", () => resolve());
-      sock.once("error", reject);
-    });
-  }
+export async function deliverEmail(params: SendEmailParams, trace?: SmtpStage[]): Promise<void> {
+  let stage: SmtpStageName = "config";
+  let startedAt = Date.now();
+  const begin = (name: SmtpStageName) => {
+    stage = name;
+    startedAt = Date.now();
+  };
+  const pass = (detail: string) => trace?.push({ stage, ok: true, ms: Date.now() - startedAt, detail });
 
+  let sock: SocketLike | null = null;
   try {
-    await expect(sock, [220]);
-    await write(sock, `EHLO water-monitoring\r\n`);
-    const ehlo = await readLine(sock, 10000);
-
-    // STARTTLS upgrade (optional)
-    if (port !== 465 && useStartTls && /STARTTLS/i.test(ehlo)) {
-      await write(sock, `STARTTLS\r\n`);
-      await expect(sock, [220]);
-      sock = tls.connect({ socket: sock as net.Socket, servername: host, rejectUnauthorized: false });
-      await new Promise<void>((resolve, reject) => {
-        (sock as tls.TLSSocket).once("secureConnect", () => resolve());
-        sock.once("error", reject);
-      });
-      await write(sock, `EHLO water-monitoring\r\n`);
-      await readLine(sock, 10000);
+    if (!hasSmtpEnv()) {
+      throw new Error("SMTP is not configured (SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS/SMTP_FROM)");
     }
 
-    // AUTH LOGIN
-    await write(sock, `AUTH LOGIN\r\n`);
-    await expect(sock, [334]);
-    await write(sock, `${b64(user)}\r\n`);
-    await expect(sock, [334]);
-    await write(sock, `${b64(pass)}\r\n`);
-    await expect(sock, [235]);
+    const host = env("SMTP_HOST");
+    const port = Number(env("SMTP_PORT"));
+    const user = env("SMTP_USER");
+    const pwd = env("SMTP_PASS");
+    const from = env("SMTP_FROM");
+    const useStartTls = env("SMTP_STARTTLS").toLowerCase() === "true";
 
-    await write(sock, `MAIL FROM:<${from}>\r\n`);
-    await expect(sock, [250]);
+    const recipients = params.to
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (recipients.length === 0) throw new Error("No recipients");
+    pass(`${host}:${port}, TLS: ${port === 465 ? "SMTPS" : useStartTls ? "STARTTLS" : "none"}`);
 
-    for (const r of recipients) {
-      await write(sock, `RCPT TO:<${r}>\r\n`);
-      await expect(sock, [250, 251]);
+    // Connect
+    begin("connect");
+    if (port === 465) {
+      sock = tls.connect({ host, port, servername: host, rejectUnauthorized: false });
+      await waitFor(sock, "secureConnect");
+    } else {
+      sock = net.connect({ host, port });
+      await waitFor(sock, "connect");
     }
+    pass(`Connected to ${sock.remoteAddress}:${sock.remotePort}`);
 
-    await write(sock, `DATA\r\n`);
-    await expect(sock, [354]);
+    let reader = createReader(sock);
+    try {
+      begin("greeting");
+      pass(firstLine(await expect(reader, [220])));
 
-    const mime = makeMime({ from, to: recipients.join(", "), subject: params.subject, html: params.html });
-    // End data with \r\n.\r\n
-    await write(sock, mime + "\r\n.\r\n");
-    await expect(sock, [250]);
+      begin("ehlo");
+      await write(sock, `EHLO water-monitoring\r\n`);
+      const ehlo = await expect(reader, [250]);
+      const [greet, ...extensions] = ehlo.trim().split(/\r?\n/).map((l) => l.slice(4));
+      pass(extensions.length ? `${greet} (extensions: ${extensions.join(", ")})` : greet);
 
-    await write(sock, `QUIT\r\n`);
-    return true;
-  } catch (e) {
-    console.error("SMTP send failed:", e);
-    try {
+      // STARTTLS upgrade (optional)
+      begin("starttls");
+      if (port !== 465 && useStartTls && /STARTTLS/i.test(ehlo)) {
+        await write(sock, `STARTTLS\r\n`);
+        await expect(reader, [220]);
+        reader.detach();
+        sock = tls.connect({ socket: sock as net.Socket, servername: host, rejectUnauthorized: false });
+        await waitFor(sock, "secureConnect");
+        reader = createReader(sock);
+        await write(sock, `EHLO water-monitoring\r\n`);
+        await expect(reader, [250]);
+        pass(`Upgraded to ${(sock as tls.TLSSocket).getProtocol() || "TLS"}`);
+      } else {
+        pass(
+          port === 465
+            ? "Not needed (SMTPS)"
+            : useStartTls
+            ? "Not offered by the server, continuing without TLS"
+            : "Not requested (SMTP_STARTTLS is not true)"
+        );
+      }
+
+      // AUTH LOGIN
+      begin("auth");
+      await write(sock, `AUTH LOGIN\r\n`);
+      await expect(reader, [334]);
+      await write(sock, `${b64(user)}\r\n`);
+      await expect(reader, [334]);
+      await write(sock, `${b64(pwd)}\r\n`);
+      pass(firstLine(await expect(reader, [235])));
+
+      begin("mail_from");
+      await write(sock, `MAIL FROM:<${from}>\r\n`);
+      pass(firstLine(await expect(reader, [250])));
+
+      begin("rcpt");
+      for (const r of recipients) {
+        await write(sock, `RCPT TO:<${r}>\r\n`);
+        await expect(reader, [250, 251]);
+      }
+      pass(`${recipients.length} recipient(s) accepted`);
+
+      begin("data");
+      await write(sock, `DATA\r\n`);
+      await expect(reader, [354]);
+
+      const mime = makeMime({ ...params, from, to: recipients.join(", ") });
+      // The message ends with CRLF; terminate DATA with ".\r\n"
+      await write(sock, dotStuff(mime) + ".\r\n");
+      pass(firstLine(await expect(reader, [250])));
+
+      begin("quit");
       await write(sock, `QUIT\r\n`);
-    } catch {}
-    return false;
+      pass("Session closed");
+    } catch (e) {
+      try {
+        await write(sock, `QUIT\r\n`);
+      } catch {}
+      throw e;
+    }
+  } catch (e: any) {
+    trace?.push({ stage, ok: false, ms: Date.now() - startedAt, detail: String(e?.message || e) });
+    throw e;
   } finally {
     try {
-      sock.end();
+      sock?.end();
     } catch {}
   }
 }
+
+/** Best-effort send: logs the failure and returns false instead of throwing. */
+export async function sendEmail(params: SendEmailParams): Promise<boolean> {
+  if (!hasSmtpEnv()) {
+    console.warn(
+      "⚠️ SMTP is not configured (SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS/SMTP_FROM). Skipping email send."
+    );
+    return false;
+  }
+  try {
+    await deliverEmail(params);
+    return true;
+  } catch (e) {
+    console.error("SMTP send failed:", e);
+    return false;
+  }
+}
@@ -0,0 +1,114 @@
+import { Pool, PoolClient } from "pg";
+import { pool } from "./db";
+import { EmailAttachment, deliverEmail } from "./email";
+import { backoffMs, envNumber } from "./workers/scheduler";
+
+/**
+ * Durable email outbox.
+ * Notifications are queued in email_outbox and sent by the email worker; failed sends are
+ * retried with backoff until EMAIL_MAX_ATTEMPTS, then marked failed.
+ * The linked alerts mirror the delivery state in alerts.email_status / email_error
+ * (pending -> sent | retrying -> sent | failed).
+ */
+
+// Retry delays: 1m, 2m, 4m ... capped at 1h
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/** Queues an email; pass a transaction's client (`db`) to queue it atomically with other writes. */
+export async function enqueueEmail(
+  params: {
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    attachments?: EmailAttachment[];
+    alertIds?: string[];
+  },
+  db: Pool | PoolClient = pool
+) {
+  const alertIds = params.alertIds || [];
+  // Attachments are stored base64-encoded so binary content survives the JSONB round trip
+  const attachments = (params.attachments || []).map((a) => ({
+    filename: a.filename,
+    contentType: a.contentType || null,
+    content: (typeof a.content === "string" ? Buffer.from(a.content, "utf8") : a.content).toString("base64")
+  }));
+  const r = await db.query(
+    `INSERT INTO email_outbox(to_addr, subject, html, text_body, attachments, alert_ids)
+     VALUES ($1,$2,$3,$4,$5,$6::bigint[])
+     RETURNING id`,
+    [params.to, params.subject, params.html, params.text ?? null, JSON.stringify(attachments), alertIds]
+  );
+  if (alertIds.length) {
+    await db.query(
+      `UPDATE alerts SET email_status = 'pending', email_error = NULL WHERE id = ANY($1::bigint[])`,
+      [alertIds]
+    );
+  }
+  return r.rows[0];
+}
+
+async function markAlerts(alertIds: string[], status: string, error: string | null) {
+  if (!alertIds?.length) return;
+  await pool.query(
+    `UPDATE alerts SET email_status = $2, email_error = $3, email_sent = ($2 = 'sent')
+     WHERE id = ANY($1::bigint[])`,
+    [alertIds, status, error]
+  );
+}
+
+/** Send every due outbox message once (oldest first). */
+export async function sendDueEmails(limit = 20) {
+  const due = await pool.query(
+    `SELECT * FROM email_outbox
+     WHERE status = 'pending' AND next_attempt_at <= NOW()
+     ORDER BY next_attempt_at
+     LIMIT $1`,
+    [limit]
+  );
+
+  let sent = 0;
+  for (const m of due.rows) {
+    const attempts = Number(m.attempts) + 1;
+    try {
+      await deliverEmail({
+        to: m.to_addr,
+        subject: m.subject,
+        html: m.html,
+        text: m.text_body ?? undefined,
+        attachments: (m.attachments || []).map((a: any) => ({
+          filename: a.filename,
+          contentType: a.contentType || undefined,
+          content: Buffer.from(a.content, "base64")
+        }))
+      });
+      sent++;
+      await pool.query(
+        `UPDATE email_outbox SET status = 'sent', attempts = $2, last_error = NULL, sent_at = NOW() WHERE id = $1`,
+        [m.id, attempts]
+      );
+      await markAlerts(m.alert_ids, "sent", null);
+    } catch (e: any) {
+      const error = String(e?.message || e).slice(0, 500);
+      if (attempts >= envNumber("EMAIL_MAX_ATTEMPTS", 8)) {
+        await pool.query(`UPDATE email_outbox SET status = 'failed', attempts = $2, last_error = $3 WHERE id = $1`, [
+          m.id,
+          attempts,
+          error
+        ]);
+        await markAlerts(m.alert_ids, "failed", error);
+        console.error(`❌ Email ${m.id} to ${m.to_addr} failed after ${attempts} attempt(s): ${error}`);
+      } else {
+        await pool.query(
+          `UPDATE email_outbox
+           SET attempts = $2, last_error = $3, next_attempt_at = NOW() + make_interval(secs => $4::float8)
+           WHERE id = $1`,
+          [m.id, attempts, error, backoffMs(attempts, BASE_BACKOFF_MS, MAX_BACKOFF_MS) / 1000]
+        );
+        await markAlerts(m.alert_ids, "retrying", error);
+      }
+    }
+  }
+  return { attempted: due.rows.length, sent };
+}
@@ -0,0 +1,220 @@
+import { pool } from "./db";
+import { METRICS } from "./alertRules";
+import { escapeHtml, htmlToText } from "./email";
+
+/**
+ * Alert email templates.
+ * Admins store subject / HTML / text templates per language and severity in email_templates;
+ * `severity = 'any'` is the fallback for a language. Lookup order for an alert email:
+ * (language, severity) -> (language, any) -> built-in language default -> the same for English.
+ *
+ * Placeholders are written {{name}}. Values are HTML-escaped in the HTML body; {{alerts}} expands
+ * to the list of all alerts of the email (the other alert placeholders describe the most severe one).
+ */
+
+export const TEMPLATE_SEVERITIES = ["any", "warning", "critical"] as const;
+export type TemplateSeverity = (typeof TEMPLATE_SEVERITIES)[number];
+
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  device_id: "Device ID",
+  device_name: "Device name",
+  location: "Device location label",
+  alert_type: "Alert type, e.g. salinity_high",
+  severity: "warning / critical",
+  metric: "Metric label, e.g. Salinity",
+  value: "Measured value (with unit)",
+  threshold: "Rule threshold (with unit)",
+  message: "Alert message",
+  time: "Alert time",
+  link: "Link to the device dashboard (/device/:deviceId)",
+  alert_count: "Number of alerts in this email",
+  alerts: "List of all alerts in this email",
+  cooldown_minutes: "Cooldown between duplicate alerts"
+};
+
+export type EmailTemplate = {
+  language: string;
+  severity: TemplateSeverity;
+  subject: string;
+  html: string;
+  text: string | null;
+};
+
+export const DEFAULT_TEMPLATES: Record<string, EmailTemplate> = {
+  en: {
+    language: "en",
+    severity: "any",
+    subject: "[Water Monitoring] {{device_name}}: {{alert_count}} alert(s)",
+    html: `<div style="font-family: Arial, sans-serif; line-height: 1.6">
+  <h2>Water Monitoring Alert</h2>
+  <p><b>Device:</b> {{device_name}} ({{device_id}})<br/><b>Location:</b> {{location}}</p>
+  {{alerts}}
+  <p>Cooldown: {{cooldown_minutes}} minutes (duplicate alerts are suppressed).</p>
+  <p><a href="{{link}}">Open the device dashboard</a></p>
+  <p>The readings that led to the alert(s) are attached as CSV.</p>
+</div>`,
+    text: null
+  },
+  vi: {
+    language: "vi",
+    severity: "any",
+    subject: "[Giám sát nước] {{device_name}}: {{alert_count}} cảnh báo",
+    html: `<div style="font-family: Arial, sans-serif; line-height: 1.6">
+  <h2>Cảnh báo giám sát nước</h2>
+  <p><b>Trạm:</b> {{device_name}} ({{device_id}})<br/><b>Vị trí:</b> {{location}}</p>
+  {{alerts}}
+  <p>Thời gian chờ: {{cooldown_minutes}} phút (cảnh báo trùng lặp sẽ bị bỏ qua).</p>
+  <p><a href="{{link}}">Mở bảng điều khiển của trạm</a></p>
+  <p>Dữ liệu đo dẫn đến cảnh báo được đính kèm dưới dạng CSV.</p>
+</div>`,
+    text: null
+  }
+};
+
+/** Lowercase language tag (en, vi, pt-br …) or null when invalid. */
+export function parseLanguage(v: any) {
+  const s = String(v ?? "").trim().toLowerCase();
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/.test(s) ? s : null;
+}
+
+/** Placeholder names used in a template that do not exist. */
+export function unknownPlaceholders(...templates: (string | null | undefined)[]) {
+  const names = new Set<string>();
+  for (const t of templates) {
+    for (const m of String(t || "").matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) {
+      if (!(m[1] in TEMPLATE_PLACEHOLDERS)) names.add(m[1]);
+    }
+  }
+  return [...names];
+}
+
+export type AlertEmailContext = {
+  language: string;
+  severity: string;
+  values: Record<string, string>;
+  alerts: { type: string; severity: string; message: string; time: string }[];
+};
+
+function fill(template: string, ctx: AlertEmailContext, mode: "html" | "text") {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    if (name === "alerts") {
+      return mode === "html"
+        ? `<ul>${ctx.alerts
+            .map(
+              (a) =>
+                `<li><b>${escapeHtml(a.type)}</b> — ${escapeHtml(a.message)} <i>(${escapeHtml(a.time)})</i></li>`
+            )
+            .join("")}</ul>`
+        : ctx.alerts.map((a) => `- ${a.type}: ${a.message} (${a.time})`).join("\n");
+    }
+    const v = ctx.values[name] ?? "";
+    return mode === "html" ? escapeHtml(v) : v;
+  });
+}
+
+export function renderTemplate(template: Pick<EmailTemplate, "subject" | "html" | "text">, ctx: AlertEmailContext) {
+  const html = fill(template.html, ctx, "html");
+  return {
+    // Header value: no line breaks
+    subject: fill(template.subject, ctx, "text").replace(/\s*[\r\n]+\s*/g, " ").trim(),
+    html,
+    text: template.text ? fill(template.text, ctx, "text") : htmlToText(html)
+  };
+}
+
+/** Stored template for a language / severity (with fallbacks, see top of file). */
+export async function findTemplate(language: string, severity: string): Promise<EmailTemplate> {
+  const r = await pool.query(
+    `SELECT language, severity, subject, html, text_body AS text
+     FROM email_templates
+     WHERE language = ANY($1::text[]) AND severity IN ($2, 'any')`,
+    [[language, "en"], severity]
+  );
+  for (const lang of [language, "en"]) {
+    const row =
+      r.rows.find((t) => t.language === lang && t.severity === severity) ||
+      r.rows.find((t) => t.language === lang && t.severity === "any");
+    if (row) return row;
+    if (DEFAULT_TEMPLATES[lang]) return DEFAULT_TEMPLATES[lang];
+  }
+  return DEFAULT_TEMPLATES.en;
+}
+
+function formatTime(t: any, language: string) {
+  const d = new Date(t);
+  try {
+    return d.toLocaleString(language);
+  } catch {
+    return d.toLocaleString();
+  }
+}
+
+const SEVERITY_RANK: Record<string, number> = { info: 0, warning: 1, critical: 2 };
+
+/** Placeholder values for an email about `alerts` (rows of the alerts table) of one device. */
+export async function alertEmailContext(
+  deviceId: string,
+  alerts: any[],
+  opts: { language?: string; cooldownMinutes?: number; metricByType?: Record<string, string> } = {}
+): Promise<AlertEmailContext> {
+  const language = parseLanguage(opts.language) || "en";
+  const d = await pool.query(`SELECT name, location_label FROM devices WHERE id = $1`, [deviceId]);
+  const device = d.rows[0];
+
+  const main = [...alerts].sort((a, b) => (SEVERITY_RANK[b.severity] ?? 0) - (SEVERITY_RANK[a.severity] ?? 0))[0];
+  const metricKey = opts.metricByType?.[main?.type];
+  const metric = metricKey ? METRICS[metricKey] : undefined;
+  const unit = metric?.unit ?? (main?.type === "no_data" ? " min" : "");
+  const withUnit = (v: any) => (v === null || v === undefined ? "" : `${v}${unit}`);
+  const base = (process.env.APP_BASE_URL || "").replace(/\/+$/, "");
+
+  return {
+    language,
+    severity: main?.severity || "warning",
+    values: {
+      device_id: deviceId,
+      device_name: device?.name || deviceId,
+      location: device?.location_label || "",
+      alert_type: main?.type || "",
+      severity: main?.severity || "",
+      metric: metric?.label || "",
+      value: withUnit(main?.value),
+      threshold: withUnit(main?.threshold),
+      message: main?.message || "",
+      time: main ? formatTime(main.created_at, language) : "",
+      link: `${base}/device/${encodeURIComponent(deviceId)}`,
+      alert_count: String(alerts.length),
+      cooldown_minutes: String(opts.cooldownMinutes ?? 15)
+    },
+    alerts: alerts.map((a) => ({
+      type: a.type,
+      severity: a.severity,
+      message: a.message,
+      time: formatTime(a.created_at, language)
+    }))
+  };
+}
+
+/** Subject / HTML / text of the notification for newly created alerts of one device. */
+export async function renderAlertEmail(ctx: AlertEmailContext) {
+  return renderTemplate(await findTemplate(ctx.language, ctx.severity), ctx);
+}
+
+/** Made-up alert for previews and test sends. */
+export async function sampleAlertContext(deviceId: string, language: string, severity: string) {
+  const critical = severity === "critical";
+  return alertEmailContext(
+    deviceId,
+    [
+      {
+        type: critical ? "salinity_critical" : "salinity_high",
+        severity: critical ? "critical" : "warning",
+        message: `Salinity is high: ${critical ? 16.2 : 12.4} ppt (threshold: > ${critical ? 15 : 10} ppt)`,
+        value: critical ? 16.2 : 12.4,
+        threshold: critical ? 15 : 10,
+        created_at: new Date()
+      }
+    ],
+    { language, metricByType: { salinity_high: "salinity", salinity_critical: "salinity" } }
+  );
+}
@@ -0,0 +1,123 @@
+import { pool } from "./db";
+import { getRules } from "./alertRules";
+import { escapeHtml } from "./email";
+import { enqueueEmail } from "./emailOutbox";
+import { alertEmailContext, renderAlertEmail } from "./emailTemplates";
+
+/**
+ * Escalation of unacknowledged critical alerts.
+ * alert_settings.escalation_steps is an ordered list of { after_minutes, email_to }: when a critical
+ * alert is still open `after_minutes` after it was created, the step's recipients are emailed.
+ * Acknowledging (or resolving) the alert stops the escalation. Every step sent is recorded in
+ * alert_escalations and the alert's escalation_level is the last step reached.
+ * A condition escalates once: only the oldest unresolved alert of a (device, type) has a chain, and
+ * acknowledging any alert of that (device, type) stops it.
+ */
+
+export type EscalationStep = { after_minutes: number; email_to: string };
+
+export const MAX_ESCALATION_STEPS = 5;
+
+/** Validates a list of steps: after_minutes strictly increasing, recipients required. */
+export function parseEscalationSteps(v: any): { steps: EscalationStep[] } | { error: string } {
+  if (v === undefined || v === null) return { steps: [] };
+  if (!Array.isArray(v)) return { error: "escalation_steps must be an array" };
+  if (v.length > MAX_ESCALATION_STEPS) return { error: `At most ${MAX_ESCALATION_STEPS} escalation steps` };
+
+  const steps: EscalationStep[] = [];
+  for (const [i, s] of v.entries()) {
+    const after = Number(s?.after_minutes);
+    const to = String(s?.email_to || "").trim();
+    if (!Number.isInteger(after) || after <= 0) {
+      return { error: `Escalation step ${i + 1}: after_minutes must be a positive integer` };
+    }
+    if (!to) return { error: `Escalation step ${i + 1}: email_to is required` };
+    if (steps.length && after <= steps[steps.length - 1].after_minutes) {
+      return { error: `Escalation step ${i + 1}: after_minutes must be greater than the previous step` };
+    }
+    steps.push({ after_minutes: after, email_to: to });
+  }
+  return { steps };
+}
+
+/** `alert` is an alerts row joined with its device's email_language / cooldown_minutes. */
+async function escalationEmail(alert: any, level: number, step: EscalationStep) {
+  const rules = await getRules(alert.device_id);
+  const ctx = await alertEmailContext(alert.device_id, [alert], {
+    language: alert.email_language,
+    cooldownMinutes: Number(alert.cooldown_minutes || 15),
+    metricByType: Object.fromEntries(rules.map((r) => [r.type, r.metric]))
+  });
+  const email = await renderAlertEmail(ctx);
+  const note = `Escalation level ${level}: this critical alert has not been acknowledged for ${step.after_minutes} minutes.`;
+
+  return {
+    to: step.email_to,
+    subject: `[Escalation ${level}] ${email.subject}`,
+    html: `<p style="font-family: Arial, sans-serif; color: #b91c1c"><b>${escapeHtml(note)}</b></p>${email.html}`,
+    text: `${note}\n\n${email.text}`
+  };
+}
+
+// An older unresolved alert, or an acknowledged one, of the same (device, type) as `a`
+const SUPERSEDED = `EXISTS (
+  SELECT 1 FROM alerts x
+  WHERE x.device_id = a.device_id AND x.type = a.type AND x.id <> a.id AND x.status <> 'resolved'
+    AND (x.status = 'acknowledged' OR x.created_at < a.created_at OR (x.created_at = a.created_at AND x.id < a.id))
+)`;
+
+/** Sends the next due escalation step of every open critical alert (one step per alert per run). */
+export async function escalateDueAlerts(now = new Date()) {
+  const r = await pool.query(
+    `SELECT a.*, s.escalation_steps, s.email_language, s.cooldown_minutes
+     FROM alerts a
+     JOIN alert_settings s ON s.device_id = a.device_id
+     WHERE a.status = 'open'
+       AND a.severity = 'critical'
+       AND s.enabled
+       AND jsonb_array_length(s.escalation_steps) > a.escalation_level
+       AND NOT ${SUPERSEDED}
+     ORDER BY a.created_at`
+  );
+
+  let escalated = 0;
+  for (const alert of r.rows) {
+    const level = Number(alert.escalation_level) + 1;
+    const step: EscalationStep | undefined = alert.escalation_steps[level - 1];
+    if (!step) continue;
+    const dueAt = new Date(alert.created_at).getTime() + Number(step.after_minutes) * 60000;
+    if (dueAt > now.getTime()) continue;
+
+    const client = await pool.connect();
+    try {
+      const email = await escalationEmail(alert, level, step);
+      // The step is claimed, recorded and its email queued in one transaction: a failure leaves the
+      // step due for the next run, and a claimed step always has its email
+      await client.query("BEGIN");
+      const claimed = await client.query(
+        `UPDATE alerts a SET escalation_level = $2, escalated_at = $3
+         WHERE id = $1 AND escalation_level = $2 - 1 AND status = 'open' AND NOT ${SUPERSEDED}
+         RETURNING id`,
+        [alert.id, level, now]
+      );
+      if (!claimed.rows[0]) {
+        await client.query("ROLLBACK");
+        continue;
+      }
+      await client.query(
+        `INSERT INTO alert_escalations(alert_id, level, after_minutes, email_to, created_at)
+         VALUES ($1,$2,$3,$4,$5)`,
+        [alert.id, level, step.after_minutes, step.email_to, now]
+      );
+      await enqueueEmail(email, client);
+      await client.query("COMMIT");
+      escalated++;
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => {});
+      console.error(`Escalation of alert ${alert.id} failed:`, e);
+    } finally {
+      client.release();
+    }
+  }
+  return escalated;
+}
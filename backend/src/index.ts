@@ -4,16 +4,41 @@ import dotenv from "dotenv";
 import path from "path";
 import readingsRouter from "./routes/readings";
 import alertsRouter from "./routes/alerts";
+import devicesRouter from "./routes/devices";
+import authRouter from "./routes/auth";
+import webhooksRouter from "./routes/webhooks";
+import emailTemplatesRouter from "./routes/emailTemplates";
+import notificationsRouter from "./routes/notifications";
 import { ensureSchema } from "./schema";
+import { ensureBootstrapAdmin } from "./auth";
+import { startAlertWorker } from "./workers/alertWorker";
+import { startWebhookWorker } from "./workers/webhookWorker";
+import { startEmailWorker } from "./workers/emailWorker";
+import { startDigestWorker } from "./workers/digestWorker";
+import { startEscalationWorker } from "./workers/escalationWorker";
+import { startRollupWorker } from "./workers/rollupWorker";
+import { startThingspeakWorker } from "./workers/thingspeakWorker";
 
 dotenv.config();
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+// 5mb fits a full batch of buffered readings (POST /api/readings/batch)
+app.use(express.json({ limit: "5mb" }));
 
-// Bootstrap DB schema for alerting features (best-effort)
-ensureSchema().catch((e) => console.error("Failed to ensure schema", e));
+// Bootstrap DB schema for alerting features (best-effort), then start background workers
+ensureSchema()
+  .then(() => ensureBootstrapAdmin())
+  .then(() => {
+    startAlertWorker();
+    startWebhookWorker();
+    startEmailWorker();
+    startDigestWorker();
+    startEscalationWorker();
+    startRollupWorker();
+    startThingspeakWorker();
+  })
+  .catch((e) => console.error("Failed to ensure schema", e));
 
 // Healthcheck
 app.get("/health", (req, res) => {
@@ -21,8 +46,13 @@ app.get("/health", (req, res) => {
 });
 
 // API routes
+app.use("/api/auth", authRouter);
 app.use("/api/readings", readingsRouter);
 app.use("/api/alerts", alertsRouter);
+app.use("/api/devices", devicesRouter);
+app.use("/api/webhooks", webhooksRouter);
+app.use("/api/email-templates", emailTemplatesRouter);
+app.use("/api/notifications", notificationsRouter);
 
 // Serve React build (single URL deployment)
 const FRONTEND_DIST = path.join(__dirname, "../../frontend/water-monitoring-frontend/dist");
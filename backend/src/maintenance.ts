@@ -0,0 +1,75 @@
+import { pool } from "./db";
+
+/**
+ * Maintenance windows: periods during which a device's alerts are muted (probe recalibration,
+ * cleaning…). Readings are still stored and evaluated (breach streaks keep counting), but no
+ * alert / email is created for the muted alert types. alert_types NULL = every type.
+ */
+
+export type MaintenanceWindow = {
+  id: string;
+  device_id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+  alert_types: string[] | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+export const MAINTENANCE_COLUMNS = `id, device_id, starts_at, ends_at, reason, alert_types, created_by, created_at`;
+
+/** Windows of a device that cover `at`. */
+export async function activeMaintenance(deviceId: string, at = new Date()): Promise<MaintenanceWindow[]> {
+  const r = await pool.query(
+    `SELECT ${MAINTENANCE_COLUMNS} FROM maintenance_windows
+     WHERE device_id = $1 AND starts_at <= $2 AND ends_at > $2`,
+    [deviceId, at]
+  );
+  return r.rows;
+}
+
+export function isMuted(windows: MaintenanceWindow[], alertType: string) {
+  return windows.some((w) => !w.alert_types?.length || w.alert_types.includes(alertType));
+}
+
+function parseTime(v: any) {
+  if (v === undefined || v === null || v === "") return null;
+  const d = new Date(v);
+  return isNaN(d.getTime()) ? undefined : d;
+}
+
+/**
+ * Validates a window from a request body. `duration_minutes` (e.g. 120 for "mute for 2h") can
+ * replace ends_at; starts_at defaults to now.
+ */
+export function parseMaintenanceWindow(body: any, now = new Date()) {
+  const startsAt = parseTime(body?.starts_at);
+  if (startsAt === undefined) return { error: "starts_at must be a date" };
+  const start = startsAt || now;
+
+  let end = parseTime(body?.ends_at);
+  if (end === undefined) return { error: "ends_at must be a date" };
+  if (!end && body?.duration_minutes !== undefined) {
+    const minutes = Number(body.duration_minutes);
+    if (!Number.isFinite(minutes) || minutes <= 0) return { error: "duration_minutes must be > 0" };
+    end = new Date(start.getTime() + minutes * 60000);
+  }
+  if (!end) return { error: "ends_at or duration_minutes is required" };
+  if (end <= start) return { error: "ends_at must be after starts_at" };
+
+  const types = body?.alert_types;
+  if (types !== undefined && types !== null && !(Array.isArray(types) && types.every((t) => typeof t === "string"))) {
+    return { error: "alert_types must be an array of alert types" };
+  }
+  const alertTypes = (types || []).map((t: string) => t.trim()).filter(Boolean);
+
+  return {
+    window: {
+      starts_at: start,
+      ends_at: end,
+      reason: String(body?.reason || "").trim() || null,
+      alert_types: alertTypes.length ? alertTypes : null
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Metric catalog: every measurement a reading can carry. Each metric is a sensor_readings column
+ * (and <key>_min / _max / _sum / _count in the rollup tables), added by the schema bootstrap, so a
+ * new metric only needs an entry here. Keys are used as column names: lowercase, digits and _.
+ * Values outside [min, max] cannot be a real measurement: posted readings with one are rejected,
+ * synced ones are stored as null.
+ */
+
+export type MetricDef = {
+  key: string;
+  name: string;
+  unit: string;
+  precision: number; // decimals shown
+  min: number;
+  max: number;
+};
+
+export const METRIC_CATALOG: MetricDef[] = [
+  { key: "salinity", name: "Salinity", unit: "ppt", precision: 1, min: 0, max: 100 },
+  { key: "ph", name: "pH", unit: "", precision: 1, min: 0, max: 14 },
+  { key: "temperature", name: "Temperature", unit: "°C", precision: 1, min: -10, max: 60 },
+  { key: "battery", name: "Battery", unit: "%", precision: 0, min: 0, max: 100 },
+  { key: "dissolved_oxygen", name: "Dissolved Oxygen", unit: "mg/L", precision: 2, min: 0, max: 50 },
+  { key: "turbidity", name: "Turbidity", unit: "NTU", precision: 1, min: 0, max: 4000 },
+  { key: "water_level", name: "Water Level", unit: "m", precision: 2, min: -50, max: 100 },
+  { key: "ec", name: "Conductivity (EC)", unit: "µS/cm", precision: 0, min: 0, max: 200000 }
+];
+
+export function metricDef(key: string) {
+  return METRIC_CATALOG.find((m) => m.key === key);
+}
+
+/** Unit as appended to a value in messages: "12 ppt", "28°C", "80%". */
+export function unitSuffix(unit: string) {
+  return !unit || /^[%°]/.test(unit) ? unit : ` ${unit}`;
+}
+
+/** null when `v` is outside the metric's valid range. */
+export function inRange(key: string, v: number) {
+  const m = metricDef(key);
+  return !m || (v >= m.min && v <= m.max) ? v : null;
+}
+
+/**
+ * Metric values of a posted reading, in catalog order. Values may be numbers or numeric strings;
+ * missing / null metrics are stored as null.
+ */
+export function parseMetricValues(body: Record<string, any>): { values: (number | null)[] } | { error: string } {
+  const values: (number | null)[] = [];
+  for (const m of METRIC_CATALOG) {
+    const v = body[m.key];
+    if (v === undefined || v === null) {
+      values.push(null);
+      continue;
+    }
+    const n = typeof v === "number" || (typeof v === "string" && v.trim()) ? Number(v) : NaN;
+    if (!Number.isFinite(n)) return { error: `${m.key} must be a number` };
+    if (inRange(m.key, n) === null) return { error: `${m.key} must be between ${m.min} and ${m.max}` };
+    values.push(n);
+  }
+  return { values };
+}
@@ -0,0 +1,33 @@
+import { NextFunction, Request, Response } from "express";
+import { AuthUser, verifyToken } from "../auth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+function bearer(req: Request) {
+  const h = req.headers.authorization || "";
+  return h.startsWith("Bearer ") ? h.slice(7).trim() : "";
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const user = verifyToken(bearer(req));
+  if (!user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  req.user = user;
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  requireAuth(req, res, () => {
+    if (req.user?.role !== "admin") {
+      return res.status(403).json({ error: "Admin role required" });
+    }
+    next();
+  });
+}
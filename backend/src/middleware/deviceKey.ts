@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import { findActiveDeviceKey } from "../deviceKeys";
+
+declare global {
+  namespace Express {
+    interface Request {
+      deviceKey?: { id: string; device_id: string };
+    }
+  }
+}
+
+/**
+ * Requires a valid `X-Device-Key` header. The controller still has to check that
+ * the claimed device_id matches `req.deviceKey.device_id`.
+ */
+export async function requireDeviceKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = String(req.headers["x-device-key"] || "").trim();
+    if (!key) {
+      return res.status(401).json({ error: "X-Device-Key header is required" });
+    }
+    const found = await findActiveDeviceKey(key);
+    if (!found) {
+      return res.status(401).json({ error: "Invalid or revoked device key" });
+    }
+    req.deviceKey = found;
+    next();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to verify device key" });
+  }
+}
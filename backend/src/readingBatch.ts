@@ -0,0 +1,168 @@
+import { pool } from "./db";
+import { evaluateDeviceReading } from "./alerting";
+import { parseMetricValues } from "./metrics";
+import { READING_METRICS } from "./readings";
+
+/**
+ * Batch ingestion for gateways that buffer readings (e.g. during a connectivity outage) and upload
+ * them later with their measured timestamps. Items are validated one by one; the valid ones are
+ * stored with a single multi-row insert. A reading is stored once per (device_id, created_at), a
+ * unique index: items whose timestamp is already stored, or repeated within the batch, are reported
+ * as duplicates. Alert rules then run over the new readings in time order.
+ */
+
+export const MAX_BATCH_READINGS = 5000;
+
+// Gateway clocks drift; readings further ahead than this are rejected
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type BatchItemResult =
+  | { index: number; status: "inserted"; id: number; created_at: string }
+  | { index: number; status: "duplicate"; created_at: string }
+  | { index: number; status: "rejected"; error: string };
+
+type ValidReading = { index: number; createdAt: Date; values: (number | null)[] };
+
+/**
+ * Items of a batch body: a JSON array, or NDJSON text (one reading per non-empty line). A line that
+ * is not valid JSON becomes an item error instead of failing the whole batch.
+ */
+export function parseBatchBody(body: any): { items: any[] } | { error: string } {
+  let items: any[];
+  if (typeof body === "string") {
+    items = body
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return { __error: "Invalid JSON line" };
+        }
+      });
+  } else if (Array.isArray(body)) {
+    items = body;
+  } else {
+    return { error: "Body must be a JSON array of readings or NDJSON (Content-Type: application/x-ndjson)" };
+  }
+  if (!items.length) return { error: "The batch is empty" };
+  if (items.length > MAX_BATCH_READINGS) return { error: `At most ${MAX_BATCH_READINGS} readings per batch` };
+  return { items };
+}
+
+/** `{ created_at, device_id?, <metric>: value, ... }`; device_id, when given, must be the key's device. */
+function parseItem(item: any, deviceId: string, now: number): { createdAt: Date; values: (number | null)[] } | { error: string } {
+  if (item?.__error) return { error: item.__error };
+  if (!item || typeof item !== "object" || Array.isArray(item)) return { error: "Reading must be an object" };
+  if (item.device_id !== undefined && String(item.device_id) !== deviceId) {
+    return { error: "Device key does not belong to this device_id" };
+  }
+  if (typeof item.created_at !== "string" || isNaN(Date.parse(item.created_at))) {
+    return { error: "created_at must be an ISO date string" };
+  }
+  const createdAt = new Date(item.created_at);
+  if (createdAt.getTime() > now + MAX_CLOCK_SKEW_MS) return { error: "created_at is in the future" };
+
+  const parsed = parseMetricValues(item);
+  if ("error" in parsed) return parsed;
+  if (parsed.values.every((v) => v === null)) return { error: "At least one metric value is required" };
+  return { createdAt, values: parsed.values };
+}
+
+/**
+ * Stores a device's batch and evaluates its alert rules. Returns one result per item, in input order,
+ * and the number of alerts created.
+ */
+export async function ingestReadingBatch(deviceId: string, items: any[]) {
+  const now = Date.now();
+  const results: BatchItemResult[] = new Array(items.length);
+  const valid: ValidReading[] = [];
+  const seen = new Set<number>();
+
+  items.forEach((item, index) => {
+    const r = parseItem(item, deviceId, now);
+    if ("error" in r) {
+      results[index] = { index, status: "rejected", error: r.error };
+    } else if (seen.has(r.createdAt.getTime())) {
+      results[index] = { index, status: "duplicate", created_at: r.createdAt.toISOString() };
+    } else {
+      seen.add(r.createdAt.getTime());
+      valid.push({ index, ...r });
+    }
+  });
+
+  let ids = new Map<number, number>(); // item index → id of the stored reading
+  let latestBefore: Date | null = null;
+
+  if (valid.length) {
+    const latest = await pool.query(`SELECT MAX(created_at) AS t FROM sensor_readings WHERE device_id = $1`, [deviceId]);
+    latestBefore = latest.rows[0].t;
+
+    // Metric names come from READING_METRICS, never from the request. Readings already stored (also by
+    // a concurrent batch) conflict on the (device_id, created_at) index and are skipped.
+    const r = await pool.query(
+      `WITH input AS (
+         SELECT * FROM unnest($2::int[], $3::timestamptz[], ${READING_METRICS.map((_, i) => `$${i + 4}::float8[]`).join(", ")})
+           AS t(idx, created_at, ${READING_METRICS.join(", ")})
+       ),
+       ins AS (
+         INSERT INTO sensor_readings(device_id, created_at, ${READING_METRICS.join(", ")})
+         SELECT $1, created_at AT TIME ZONE 'UTC', ${READING_METRICS.join(", ")} FROM input
+         ON CONFLICT DO NOTHING
+         RETURNING id, created_at
+       )
+       SELECT input.idx, ins.id
+       FROM ins JOIN input ON input.created_at AT TIME ZONE 'UTC' = ins.created_at`,
+      [
+        deviceId,
+        valid.map((v) => v.index),
+        valid.map((v) => v.createdAt),
+        ...READING_METRICS.map((_, m) => valid.map((v) => v.values[m]))
+      ]
+    );
+    ids = new Map(r.rows.map((row) => [Number(row.idx), Number(row.id)]));
+  }
+
+  for (const v of valid) {
+    const id = ids.get(v.index);
+    results[v.index] =
+      id === undefined
+        ? { index: v.index, status: "duplicate", created_at: v.createdAt.toISOString() }
+        : { index: v.index, status: "inserted", id, created_at: v.createdAt.toISOString() };
+  }
+
+  const inserted = valid.filter((v) => ids.has(v.index));
+  return { results, alertsCreated: await evaluateBatch(deviceId, inserted, latestBefore) };
+}
+
+/**
+ * Runs the alert rules over every new reading, oldest first, so sustained / trend rules see them in the
+ * order they were measured and a breach during the outage raises its alert even if it was over by the
+ * upload. Readings older than the device's latest stored reading only fill gaps in the history and are
+ * not evaluated (an old normal value must not resolve a current alert). The stale-data check only
+ * applies to the newest reading.
+ */
+async function evaluateBatch(deviceId: string, inserted: ValidReading[], latestBefore: Date | null) {
+  const pending = inserted
+    .filter((r) => !latestBefore || r.createdAt.getTime() > new Date(latestBefore).getTime())
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  let created = 0;
+  for (const [i, r] of pending.entries()) {
+    try {
+      const result = await evaluateDeviceReading(
+        {
+          device_id: deviceId,
+          createdAt: r.createdAt.toISOString(),
+          ...Object.fromEntries(READING_METRICS.map((m, j) => [m, r.values[j]]))
+        },
+        { checkNoData: i === pending.length - 1 }
+      );
+      created += result.created.length;
+    } catch (e) {
+      // The readings are stored; the alert worker evaluates the latest one again
+      console.error(`Alert evaluation failed for ${deviceId}:`, e);
+    }
+  }
+  return created;
+}
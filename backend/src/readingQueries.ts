@@ -0,0 +1,118 @@
+import { pool } from "./db";
+import { AGGREGATE_BUCKETS, Cursor, READING_METRICS, encodeCursor } from "./readings";
+import { ROLLUP_TABLES, RollupPeriod, rawCutoff, rolledUntil } from "./rollups";
+
+/**
+ * Reading queries shared by the readings API and the CSV export. Both read raw rows where they
+ * are kept and the rollup tables elsewhere (see rollups.ts).
+ */
+
+export type ReadingsPageQuery = {
+  deviceIds: string[]; // empty = every device
+  from: string | null;
+  to: string | null;
+  columns: string; // from parseFields
+  order: "asc" | "desc";
+  cursor: Cursor | null;
+  limit: number;
+};
+
+/**
+ * One page of readings ordered by (created_at, device_id, id). Past the raw retention the pruned period
+ * is served as hourly averages (rows with id null, one per device and hour: device_id breaks the tie);
+ * `raw_since` is where raw rows begin.
+ */
+export async function queryReadingsPage(q: ReadingsPageQuery) {
+  const cutoff = await rawCutoff();
+  const result = await pool.query(
+    `SELECT ${q.columns}, _cursor_id, created_at::text AS _cursor_t
+     FROM (
+       SELECT NULL::int AS id, device_id, bucket AS created_at,
+              ${READING_METRICS.map((m) => `${m}_sum / NULLIF(${m}_count, 0) AS ${m}`).join(", ")},
+              0 AS _cursor_id
+       FROM readings_hourly
+       WHERE $7::timestamp IS NOT NULL AND bucket < $7
+       UNION ALL
+       SELECT id, device_id, created_at, ${READING_METRICS.join(", ")}, id AS _cursor_id
+       FROM sensor_readings
+       WHERE $7::timestamp IS NULL OR created_at >= $7
+     ) r
+     WHERE (cardinality($1::text[]) = 0 OR device_id = ANY($1))
+       AND ($2::text IS NULL OR created_at >= $2::timestamp)
+       AND ($3::text IS NULL OR created_at <= $3::timestamp)
+       AND ($4::text IS NULL OR (created_at, device_id, _cursor_id) ${q.order === "asc" ? ">" : "<"} ($4::timestamp, $8::text, $5::int))
+     ORDER BY created_at ${q.order}, device_id ${q.order}, _cursor_id ${q.order}
+     LIMIT $6`,
+    [q.deviceIds, q.from, q.to, q.cursor?.t ?? null, q.cursor?.i ?? null, q.limit + 1, cutoff, q.cursor?.d ?? null]
+  );
+
+  const rows = result.rows.slice(0, q.limit);
+  const last = rows[rows.length - 1];
+  return {
+    rows: rows.map(({ _cursor_id, _cursor_t, ...row }) => row),
+    next_cursor: result.rows.length > q.limit ? encodeCursor(last._cursor_t, last.device_id, last._cursor_id) : null,
+    raw_since: cutoff
+  };
+}
+
+export type AggregateQuery = {
+  deviceIds: string[];
+  from: Date;
+  to: Date;
+  bucket: string; // key of AGGREGATE_BUCKETS
+  metrics: string[]; // from parseMetrics
+};
+
+/**
+ * Per-bucket stats, one flat row per device and non-empty bucket:
+ * device_id, bucket, count, <metric>_min, <metric>_max, <metric>_avg, <metric>_count.
+ * Whole hours / days come from the rollup tables up to where they are complete, the rest from raw
+ * rows; `from` is rounded down to the bucket start so both sources give whole buckets.
+ */
+export async function aggregateReadings(q: AggregateQuery) {
+  const seconds = AGGREGATE_BUCKETS[q.bucket];
+  const period: RollupPeriod | null = seconds >= 86400 ? "day" : seconds >= 3600 ? "hour" : null;
+  const until = period ? await rolledUntil(period) : null;
+
+  // Metric names come from READING_METRICS, never from the request
+  const m = q.metrics;
+  const result = await pool.query(
+    `WITH bounds AS (
+       SELECT to_timestamp(floor(extract(epoch FROM $2::timestamp) / $4) * $4) AT TIME ZONE 'UTC' AS start,
+              CASE WHEN $5::timestamp IS NOT NULL THEN LEAST(date_trunc($6, $3::timestamp), $5) END AS rolled_end
+     ),
+     src AS (
+       SELECT device_id, bucket AS t, count, ${m.map((x) => `${x}_min, ${x}_max, ${x}_sum, ${x}_count`).join(", ")}
+       FROM ${ROLLUP_TABLES[period || "hour"]}, bounds
+       WHERE (cardinality($1::text[]) = 0 OR device_id = ANY($1))
+         AND bucket >= bounds.start AND bucket < bounds.rolled_end
+       UNION ALL
+       SELECT device_id, created_at, 1, ${m.map((x) => `${x}, ${x}, ${x}, (${x} IS NOT NULL)::int`).join(", ")}
+       FROM sensor_readings, bounds
+       WHERE (cardinality($1::text[]) = 0 OR device_id = ANY($1))
+         AND created_at >= GREATEST(bounds.start, COALESCE(bounds.rolled_end, bounds.start))
+         AND created_at < $3
+     )
+     SELECT device_id,
+            to_timestamp(floor(extract(epoch FROM t) / $4) * $4) AT TIME ZONE 'UTC' AS bucket,
+            SUM(count)::int AS count,
+            ${m
+              .map(
+                (x) =>
+                  `MIN(${x}_min) AS ${x}_min, MAX(${x}_max) AS ${x}_max, ` +
+                  `SUM(${x}_sum) / NULLIF(SUM(${x}_count), 0) AS ${x}_avg, SUM(${x}_count)::int AS ${x}_count`
+              )
+              .join(", ")}
+     FROM src
+     GROUP BY 1, 2
+     ORDER BY 1, 2`,
+    [q.deviceIds, q.from, q.to, seconds, until, period || "hour"]
+  );
+
+  for (const r of result.rows) {
+    for (const x of m) {
+      if (r[`${x}_avg`] !== null) r[`${x}_avg`] = Math.round(r[`${x}_avg`] * 1000) / 1000;
+    }
+  }
+  return result.rows;
+}
@@ -0,0 +1,86 @@
+import { METRIC_CATALOG } from "./metrics";
+
+/**
+ * Query helpers for sensor_readings: device filter, field selection and keyset pagination.
+ * The cursor is opaque to clients; it encodes the (created_at, device_id, id) of the last row returned.
+ */
+
+/** Metric columns, in catalog order (see metrics.ts). */
+export const READING_METRICS = METRIC_CATALOG.map((m) => m.key);
+
+/** Selectable columns; device_id and created_at are always returned. */
+export const READING_FIELDS = ["id", ...READING_METRICS];
+
+/** Every column, in API order. */
+export const READING_COLUMNS = ["id", "device_id", "created_at", ...READING_METRICS].join(", ");
+
+export const DEFAULT_READINGS_LIMIT = 1000;
+export const MAX_READINGS_LIMIT = 5000;
+
+/** `device_id=a,b` (or a repeated param) → de-duplicated list; empty = no filter. */
+export function parseList(v: any): string[] {
+  const values = Array.isArray(v) ? v : v === undefined ? [] : [v];
+  return [
+    ...new Set(
+      values
+        .flatMap((s) => String(s).split(","))
+        .map((s) => s.trim())
+        .filter(Boolean)
+    )
+  ];
+}
+
+/** `fields=salinity,ph` → SELECT list. No fields = every column. */
+export function parseFields(v: any): { columns: string } | { error: string } {
+  const requested = parseList(v);
+  if (!requested.length) return { columns: READING_COLUMNS };
+  const unknown = requested.filter((f) => !READING_FIELDS.includes(f) && f !== "device_id" && f !== "created_at");
+  if (unknown.length) return { error: `Unknown fields: ${unknown.join(", ")} (allowed: ${READING_FIELDS.join(", ")})` };
+  const picked = READING_FIELDS.filter((f) => requested.includes(f));
+  return { columns: ["device_id", "created_at", ...picked].join(", ") };
+}
+
+/** Clamps `limit` to MAX_READINGS_LIMIT; returns null when it is not a positive integer. */
+export function parseLimit(v: any, fallback = DEFAULT_READINGS_LIMIT) {
+  if (v === undefined || v === "") return fallback;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n <= 0) return null;
+  return Math.min(n, MAX_READINGS_LIMIT);
+}
+
+export type Cursor = { t: string; d: string; i: number };
+
+export function encodeCursor(createdAt: string, deviceId: string, id: number) {
+  return Buffer.from(JSON.stringify({ t: createdAt, d: deviceId, i: id })).toString("base64url");
+}
+
+export function decodeCursor(v: string): Cursor | null {
+  try {
+    const c = JSON.parse(Buffer.from(v, "base64url").toString("utf8"));
+    if (typeof c?.t !== "string" || !/^\d{4}-\d{2}-\d{2} [\d:.]+$/.test(c.t) || !Number.isInteger(c?.i)) return null;
+    if (typeof c?.d !== "string") return null;
+    return { t: c.t, d: c.d, i: c.i };
+  } catch {
+    return null;
+  }
+}
+
+/** Bucket sizes accepted by /api/readings/aggregate, in seconds, aligned on the stored (UTC) created_at. */
+export const AGGREGATE_BUCKETS: Record<string, number> = {
+  "15m": 15 * 60,
+  "1h": 3600,
+  "6h": 6 * 3600,
+  "1d": 24 * 3600,
+  "1w": 7 * 24 * 3600
+};
+
+/** Rejects from/to/bucket combinations that would return more buckets than this (per device). */
+export const MAX_AGGREGATE_BUCKETS = 5000;
+
+/** `fields=salinity,ph` for aggregates: metrics only, default all. */
+export function parseMetrics(v: any): { metrics: string[] } | { error: string } {
+  const requested = parseList(v);
+  const unknown = requested.filter((f) => !READING_METRICS.includes(f));
+  if (unknown.length) return { error: `Unknown metrics: ${unknown.join(", ")} (allowed: ${READING_METRICS.join(", ")})` };
+  return { metrics: READING_METRICS.filter((m) => !requested.length || requested.includes(m)) };
+}
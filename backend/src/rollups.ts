@@ -0,0 +1,175 @@
+import { pool } from "./db";
+import { READING_METRICS } from "./readings";
+
+/**
+ * Downsampling of sensor_readings into readings_hourly / readings_daily, and raw data retention.
+ * Hourly buckets are recomputed from the raw rows of every hour that received new readings; daily
+ * buckets are recomputed from the hourly ones. Rollups are kept forever. With READINGS_RETENTION_DAYS
+ * set, raw rows older than that (and already rolled up) are deleted; queries for older periods are
+ * served from the rollups.
+ */
+
+export type RollupPeriod = "hour" | "day";
+
+export const ROLLUP_TABLES: Record<RollupPeriod, string> = { hour: "readings_hourly", day: "readings_daily" };
+
+/** Weekly digests and alert windows read raw rows, so at least this much is always kept. */
+export const MIN_RETENTION_DAYS = 8;
+
+const ROLLUP_BATCH = 50000;
+// ids are assigned before commit, so a reading committed late can get an id below last_reading_id:
+// every run re-rolls the hours of the last REROLL_OVERLAP ids as well
+const REROLL_OVERLAP = 1000;
+const PRUNE_BATCH = 10000;
+const PRUNE_MAX_BATCHES = 20;
+
+const STAT_COLUMNS = READING_METRICS.flatMap((m) => [`${m}_min`, `${m}_max`, `${m}_sum`, `${m}_count`]);
+const UPSERT_SET = ["count", ...STAT_COLUMNS].map((c) => `${c} = EXCLUDED.${c}`).join(", ");
+
+/** Raw retention in days (READINGS_RETENTION_DAYS), null = keep raw readings forever. */
+export function rawRetentionDays(): number | null {
+  const n = Number((process.env.READINGS_RETENTION_DAYS || "").trim());
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.max(Math.ceil(n), MIN_RETENTION_DAYS);
+}
+
+/** Start of the oldest hour still kept raw; older periods only exist as rollups. */
+export async function rawCutoff(): Promise<Date | null> {
+  const days = rawRetentionDays();
+  if (!days) return null;
+  const r = await pool.query(`SELECT date_trunc('hour', (NOW() AT TIME ZONE 'UTC') - make_interval(days => $1)) AS cutoff`, [days]);
+  return r.rows[0].cutoff;
+}
+
+/** Buckets of `period` that start before this are complete in the rollup table (null = nothing rolled up yet). */
+export async function rolledUntil(period: RollupPeriod): Promise<Date | null> {
+  const r = await pool.query(
+    `SELECT date_trunc($1, rolled_until) AS until FROM rollup_state WHERE name = 'readings'`,
+    [period]
+  );
+  return r.rows[0]?.until ?? null;
+}
+
+/**
+ * Rolls up the next batch of new readings. Returns the number of hourly buckets written and whether
+ * every stored reading has been processed.
+ */
+export async function rollupReadings() {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`INSERT INTO rollup_state(name) VALUES ('readings') ON CONFLICT (name) DO NOTHING`);
+    const st = await client.query(`SELECT last_reading_id FROM rollup_state WHERE name = 'readings' FOR UPDATE`);
+    const lastId = Number(st.rows[0].last_reading_id);
+
+    const b = await client.query(
+      `SELECT MAX(id) AS upto, COUNT(*)::int AS n
+       FROM (SELECT id FROM sensor_readings WHERE id > $1 ORDER BY id LIMIT $2) s`,
+      [lastId, ROLLUP_BATCH]
+    );
+    const upto = b.rows[0].upto === null ? lastId : Number(b.rows[0].upto);
+    const caughtUp = b.rows[0].n < ROLLUP_BATCH;
+
+    // Raw rows of hours older than the cutoff may already be pruned: new readings for those hours are
+    // added to the existing bucket instead of recomputing it
+    const cutoff = await rawCutoff();
+    const merged = cutoff
+      ? await client.query(
+          `INSERT INTO readings_hourly AS h (device_id, bucket, count, ${STAT_COLUMNS.join(", ")})
+           SELECT device_id, date_trunc('hour', created_at), COUNT(*)::int,
+                  ${READING_METRICS.map((m) => `MIN(${m}), MAX(${m}), SUM(${m}), COUNT(${m})::int`).join(", ")}
+           FROM sensor_readings r
+           WHERE id > $1 AND id <= $2 AND created_at < $3
+             AND EXISTS (
+               SELECT 1 FROM readings_hourly x WHERE x.device_id = r.device_id AND x.bucket = date_trunc('hour', r.created_at)
+             )
+           GROUP BY 1, 2
+           ON CONFLICT (device_id, bucket) DO UPDATE SET count = h.count + EXCLUDED.count, ${READING_METRICS.map(
+             (m) =>
+               `${m}_min = LEAST(h.${m}_min, EXCLUDED.${m}_min), ${m}_max = GREATEST(h.${m}_max, EXCLUDED.${m}_max), ` +
+               `${m}_sum = COALESCE(h.${m}_sum + EXCLUDED.${m}_sum, h.${m}_sum, EXCLUDED.${m}_sum), ` +
+               `${m}_count = h.${m}_count + EXCLUDED.${m}_count`
+           ).join(", ")}
+           RETURNING device_id, bucket`,
+          [lastId, upto, cutoff]
+        )
+      : { rows: [] };
+
+    const recomputed = await client.query(
+      `WITH touched AS (
+         SELECT DISTINCT device_id, date_trunc('hour', created_at) AS bucket
+         FROM sensor_readings
+         WHERE id > $1 AND id <= $2
+       )
+       INSERT INTO readings_hourly(device_id, bucket, count, ${STAT_COLUMNS.join(", ")})
+       SELECT r.device_id, t.bucket, COUNT(*)::int,
+              ${READING_METRICS.map((m) => `MIN(r.${m}), MAX(r.${m}), SUM(r.${m}), COUNT(r.${m})::int`).join(", ")}
+       FROM touched t
+       JOIN sensor_readings r
+         ON r.device_id = t.device_id AND r.created_at >= t.bucket AND r.created_at < t.bucket + interval '1 hour'
+       WHERE $3::timestamp IS NULL OR t.bucket >= $3
+          OR NOT EXISTS (SELECT 1 FROM readings_hourly x WHERE x.device_id = t.device_id AND x.bucket = t.bucket)
+       GROUP BY r.device_id, t.bucket
+       ON CONFLICT (device_id, bucket) DO UPDATE SET ${UPSERT_SET}
+       RETURNING device_id, bucket`,
+      [Math.max(0, lastId - REROLL_OVERLAP), upto, cutoff]
+    );
+    const hourly = [...merged.rows, ...recomputed.rows];
+
+    if (hourly.length) {
+      await client.query(
+        `WITH days AS (
+           SELECT DISTINCT device_id, date_trunc('day', bucket) AS day
+           FROM unnest($1::text[], $2::timestamp[]) AS t(device_id, bucket)
+         )
+         INSERT INTO readings_daily(device_id, bucket, count, ${STAT_COLUMNS.join(", ")})
+         SELECT h.device_id, d.day, SUM(h.count)::int,
+                ${READING_METRICS.map((m) => `MIN(h.${m}_min), MAX(h.${m}_max), SUM(h.${m}_sum), SUM(h.${m}_count)::int`).join(", ")}
+         FROM days d
+         JOIN readings_hourly h
+           ON h.device_id = d.device_id AND h.bucket >= d.day AND h.bucket < d.day + interval '1 day'
+         GROUP BY h.device_id, d.day
+         ON CONFLICT (device_id, bucket) DO UPDATE SET ${UPSERT_SET}`,
+        [hourly.map((r) => r.device_id), hourly.map((r) => r.bucket)]
+      );
+    }
+
+    await client.query(
+      `UPDATE rollup_state
+       SET last_reading_id = $1,
+           rolled_until = CASE WHEN $2 THEN date_trunc('hour', NOW() AT TIME ZONE 'UTC') ELSE rolled_until END,
+           updated_at = NOW()
+       WHERE name = 'readings'`,
+      [upto, caughtUp]
+    );
+    await client.query("COMMIT");
+    return { buckets: hourly.length, caughtUp };
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/** Deletes raw readings older than the retention period that are already rolled up. Returns the count. */
+export async function pruneRawReadings() {
+  const cutoff = await rawCutoff();
+  if (!cutoff) return 0;
+  const st = await pool.query(`SELECT last_reading_id FROM rollup_state WHERE name = 'readings'`);
+  const lastId = Number(st.rows[0]?.last_reading_id || 0);
+
+  let deleted = 0;
+  for (let i = 0; i < PRUNE_MAX_BATCHES; i++) {
+    // Walks the primary key from the oldest id, so old rows are found without scanning the table
+    const r = await pool.query(
+      `DELETE FROM sensor_readings WHERE id IN (
+         SELECT id FROM sensor_readings WHERE created_at < $1 AND id <= $2 ORDER BY id LIMIT $3
+       )`,
+      [cutoff, lastId, PRUNE_BATCH]
+    );
+    deleted += r.rowCount || 0;
+    if ((r.rowCount || 0) < PRUNE_BATCH) break;
+  }
+  return deleted;
+}
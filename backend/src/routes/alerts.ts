@@ -1,21 +1,47 @@
 import { Router } from "express";
 import {
+  acknowledgeAlertById,
+  createAlertRule,
+  deleteAlertRule,
   evaluateReading,
+  exportAlertsCsv,
+  getAlertRules,
   getAlerts,
+  getAlertEscalations,
   getAlertSettings,
+  previewDigest,
+  resolveAlertById,
+  updateAlertRule,
   upsertAlertSettings
 } from "../controllers/alertsController";
+import { requireAdmin } from "../middleware/auth";
 
 const router = Router();
 
-// Settings per device
-router.get("/settings/:deviceId", getAlertSettings);
-router.put("/settings/:deviceId", upsertAlertSettings);
+// Settings per device (admin only: they hold the email recipients)
+router.get("/settings/:deviceId", requireAdmin, getAlertSettings);
+router.put("/settings/:deviceId", requireAdmin, upsertAlertSettings);
 
-// Evaluate a reading (called by frontend poller)
-router.post("/evaluate", evaluateReading);
+// Alert rules per device
+router.get("/rules", getAlertRules);
+router.post("/rules", requireAdmin, createAlertRule);
+router.put("/rules/:id", requireAdmin, updateAlertRule);
+router.delete("/rules/:id", requireAdmin, deleteAlertRule);
+
+// Digest email preview (HTML of the daily / weekly summary)
+router.get("/digest/preview", requireAdmin, previewDigest);
+
+// Evaluate a reading on demand (optional; the backend alert worker evaluates stored readings).
+// Admin only: the posted values create and resolve real alerts
+router.post("/evaluate", requireAdmin, evaluateReading);
 
 // Alerts history
 router.get("/", getAlerts);
+router.get("/export", exportAlertsCsv);
+router.get("/:id/escalations", requireAdmin, getAlertEscalations);
+
+// Lifecycle (open -> acknowledged -> resolved)
+router.post("/:id/acknowledge", requireAdmin, acknowledgeAlertById);
+router.post("/:id/resolve", requireAdmin, resolveAlertById);
 
 export default router;
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { createUser, getUsers, login, me } from "../controllers/authController";
+import { requireAdmin, requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+router.post("/login", login);
+router.get("/me", requireAuth, me);
+
+// User management (admin only)
+router.get("/users", requireAdmin, getUsers);
+router.post("/users", requireAdmin, createUser);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import {
+  createDevice,
+  deleteDevice,
+  getDevice,
+  getDevices,
+  updateDevice
+} from "../controllers/devicesController";
+import {
+  getDeviceKeys,
+  issueDeviceKey,
+  revokeDeviceKey,
+  rotateDeviceKey
+} from "../controllers/deviceKeysController";
+import {
+  createMaintenanceWindow,
+  deleteMaintenanceWindow,
+  getMaintenanceWindows,
+  updateMaintenanceWindow
+} from "../controllers/maintenanceController";
+import { getThingspeakSync, runThingspeakSync } from "../controllers/thingspeakController";
+import { requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/", getDevices);
+router.get("/:id", getDevice);
+router.post("/", requireAdmin, createDevice);
+router.put("/:id", requireAdmin, updateDevice);
+router.delete("/:id", requireAdmin, deleteDevice);
+
+// Ingestion keys per device
+router.get("/:id/keys", requireAdmin, getDeviceKeys);
+router.post("/:id/keys", requireAdmin, issueDeviceKey);
+router.post("/:id/keys/:keyId/rotate", requireAdmin, rotateDeviceKey);
+router.delete("/:id/keys/:keyId", requireAdmin, revokeDeviceKey);
+
+// Maintenance windows (alerts muted)
+router.get("/:id/maintenance", getMaintenanceWindows);
+router.post("/:id/maintenance", requireAdmin, createMaintenanceWindow);
+router.put("/:id/maintenance/:windowId", requireAdmin, updateMaintenanceWindow);
+router.delete("/:id/maintenance/:windowId", requireAdmin, deleteMaintenanceWindow);
+
+// ThingSpeak feed sync
+router.get("/:id/thingspeak-sync", requireAdmin, getThingspeakSync);
+router.post("/:id/thingspeak-sync", requireAdmin, runThingspeakSync);
+
+export default router;
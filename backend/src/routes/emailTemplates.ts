@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+  deleteEmailTemplate,
+  getEmailTemplateDefaults,
+  getEmailTemplates,
+  previewEmailTemplate,
+  saveEmailTemplate,
+  sendTestEmailTemplate
+} from "../controllers/emailTemplatesController";
+import { requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/", requireAdmin, getEmailTemplates);
+router.get("/defaults", requireAdmin, getEmailTemplateDefaults);
+router.put("/:language/:severity", requireAdmin, saveEmailTemplate);
+router.delete("/:language/:severity", requireAdmin, deleteEmailTemplate);
+
+// Render / send a sample alert email
+router.post("/preview", requireAdmin, previewEmailTemplate);
+router.post("/test", requireAdmin, sendTestEmailTemplate);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getNotificationDiagnostics, sendTestEmail } from "../controllers/notificationsController";
+import { requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/diagnostics", requireAdmin, getNotificationDiagnostics);
+router.post("/test-email", requireAdmin, sendTestEmail);
+
+export default router;
@@ -1,10 +1,26 @@
-import { Router } from "express";
-import { getLatestReading, getReadings, createReading } from "../controllers/readingsController";
+import express, { Router } from "express";
+import {
+  getLatestReading,
+  getLatestReadingsByDevice,
+  getReadings,
+  getReadingsAggregate,
+  exportReadingsCsv,
+  createReading,
+  createReadingsBatch,
+  getMetricCatalog
+} from "../controllers/readingsController";
+import { requireDeviceKey } from "../middleware/deviceKey";
 
 const router = Router();
 
+router.get("/metrics", getMetricCatalog);
 router.get("/latest", getLatestReading);
+router.get("/latest/by-device", getLatestReadingsByDevice);
+router.get("/aggregate", getReadingsAggregate);
+router.get("/export", exportReadingsCsv);
 router.get("/", getReadings);
-router.post("/", createReading);
+router.post("/", requireDeviceKey, createReading);
+// JSON arrays are parsed by the app-wide JSON parser; NDJSON arrives as text
+router.post("/batch", requireDeviceKey, express.text({ type: "application/x-ndjson", limit: "5mb" }), createReadingsBatch);
 
 export default router;
@@ -0,0 +1,24 @@
+import { Router } from "express";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  retryWebhookDelivery,
+  testWebhook,
+  updateWebhook
+} from "../controllers/webhooksController";
+import { requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+router.get("/", requireAdmin, getWebhooks);
+router.post("/", requireAdmin, createWebhook);
+router.put("/:id", requireAdmin, updateWebhook);
+router.delete("/:id", requireAdmin, deleteWebhook);
+
+router.post("/:id/test", requireAdmin, testWebhook);
+router.get("/:id/deliveries", requireAdmin, getWebhookDeliveries);
+router.post("/:id/deliveries/:deliveryId/retry", requireAdmin, retryWebhookDelivery);
+
+export default router;
@@ -1,10 +1,133 @@
 import { pool } from "./db";
+import { migrateLegacySettingsToRules } from "./alertRules";
+import { METRIC_CATALOG } from "./metrics";
 
 /**
  * Minimal schema bootstrap for alerting features.
  * Runs CREATE TABLE IF NOT EXISTS so local/dev/prod can start without manual migrations.
  */
 export async function ensureSchema() {
+  // Raw sensor readings (also in sql/schema.sql; needed here for the alert worker).
+  // created_at is UTC, whatever the server's or the session's time zone.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS sensor_readings (
+      id SERIAL PRIMARY KEY,
+      device_id VARCHAR(50) NOT NULL,
+      salinity FLOAT,
+      ph FLOAT,
+      temperature FLOAT,
+      battery FLOAT,
+      created_at TIMESTAMP DEFAULT (NOW() AT TIME ZONE 'UTC')
+    );
+  `);
+  await pool.query(`ALTER TABLE sensor_readings ALTER COLUMN created_at SET DEFAULT (NOW() AT TIME ZONE 'UTC')`);
+
+  // Where a reading came from ('thingspeak:<channel>' for synced feeds, NULL = posted) and its entry id
+  // there; the unique index makes re-syncing the same entries a no-op
+  await pool.query(`
+    ALTER TABLE sensor_readings
+      ADD COLUMN IF NOT EXISTS source TEXT,
+      ADD COLUMN IF NOT EXISTS source_entry_id BIGINT;
+  `);
+
+  await pool.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_readings_source_entry
+    ON sensor_readings(device_id, source, source_entry_id) WHERE source_entry_id IS NOT NULL;
+  `);
+
+  // Every reading query filters by device and time. A device has one reading per created_at, so
+  // batch uploads and re-syncs insert with ON CONFLICT DO NOTHING. The unique index replaces the older
+  // non-unique one; readings already stored twice are never deleted implicitly: the index waits until
+  // an admin opts in with READINGS_DEDUPE=true (the first copy of each is kept).
+  const unique = await pool.query(`SELECT to_regclass('idx_sensor_readings_device_created_at') AS idx`);
+  if (!unique.rows[0].idx) {
+    const dup = await pool.query(
+      `SELECT COUNT(*)::int AS n FROM (
+         SELECT 1 FROM sensor_readings GROUP BY device_id, created_at HAVING COUNT(*) > 1
+       ) d`
+    );
+    const duplicates = dup.rows[0].n;
+    if (duplicates && process.env.READINGS_DEDUPE !== "true") {
+      console.warn(
+        `⚠️ ${duplicates} (device_id, created_at) pair(s) in sensor_readings are stored more than once, so the unique ` +
+          "index is not created and repeated readings are not rejected. Start once with READINGS_DEDUPE=true to " +
+          "delete the extra copies (the first copy of each is kept)."
+      );
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_sensor_readings_device_created
+        ON sensor_readings(device_id, created_at);
+      `);
+    } else {
+      if (duplicates) {
+        const d = await pool.query(`
+          DELETE FROM sensor_readings a USING sensor_readings b
+          WHERE a.device_id = b.device_id AND a.created_at = b.created_at AND a.id > b.id;
+        `);
+        console.log(`🧹 READINGS_DEDUPE: deleted ${d.rowCount} duplicate reading(s) of ${duplicates} (device_id, created_at) pair(s)`);
+      }
+      await pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_readings_device_created_at
+        ON sensor_readings(device_id, created_at);
+      `);
+      await pool.query(`DROP INDEX IF EXISTS idx_sensor_readings_device_created`);
+    }
+  }
+
+  // Device registry (stations shown on the dashboard)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS devices (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      location_label TEXT,
+      lat DOUBLE PRECISION,
+      lng DOUBLE PRECISION,
+      channel_id INTEGER,
+      read_api_key TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  // Status thresholds now come from the device's alert rules (see statusThresholds in alertRules.ts)
+  await pool.query(`
+    ALTER TABLE devices
+      DROP COLUMN IF EXISTS salinity_high,
+      DROP COLUMN IF EXISTS battery_low;
+  `);
+
+  // ThingSpeak field mapping: [{ field, metric, scale, offset }], NULL = field1..4 (see thingspeak.ts)
+  await pool.query(`
+    ALTER TABLE devices
+      ADD COLUMN IF NOT EXISTS field_map JSONB;
+  `);
+
+  // Dashboard users (passwords hashed with scrypt, see auth.ts)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'viewer',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_login_at TIMESTAMPTZ
+    );
+  `);
+
+  // Per-device ingestion keys (hashed, see deviceKeys.ts)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS device_api_keys (
+      id BIGSERIAL PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      key_prefix TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      label TEXT,
+      created_by TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ
+    );
+  `);
+
   // Alert settings per device (one row per device_id)
   await pool.query(`
     CREATE TABLE IF NOT EXISTS alert_settings (
@@ -23,6 +146,74 @@ export async function ensureSchema() {
     );
   `);
 
+  // Legacy per-rule trigger conditions keyed by alert type (migrated into alert_rules)
+  await pool.query(`
+    ALTER TABLE alert_settings
+      ADD COLUMN IF NOT EXISTS conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+      ADD COLUMN IF NOT EXISTS rules_migrated BOOLEAN NOT NULL DEFAULT FALSE;
+  `);
+
+  // Digest emails (see digest.ts)
+  await pool.query(`
+    ALTER TABLE alert_settings
+      ADD COLUMN IF NOT EXISTS digest_frequency TEXT NOT NULL DEFAULT 'off',
+      ADD COLUMN IF NOT EXISTS digest_email_to TEXT,
+      ADD COLUMN IF NOT EXISTS digest_last_sent_at TIMESTAMPTZ;
+  `);
+
+  // Language of the alert emails (see emailTemplates.ts)
+  await pool.query(`
+    ALTER TABLE alert_settings
+      ADD COLUMN IF NOT EXISTS email_language TEXT NOT NULL DEFAULT 'en';
+  `);
+
+  // Escalation of unacknowledged critical alerts: [{ after_minutes, email_to }] (see escalation.ts)
+  await pool.query(`
+    ALTER TABLE alert_settings
+      ADD COLUMN IF NOT EXISTS escalation_steps JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `);
+
+  // Alert rules (replace the per-threshold columns of alert_settings)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS alert_rules (
+      id BIGSERIAL PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      operator TEXT NOT NULL,
+      value DOUBLE PRECISION NOT NULL,
+      clear_value DOUBLE PRECISION,
+      severity TEXT NOT NULL DEFAULT 'warning',
+      duration_minutes INTEGER NOT NULL DEFAULT 0,
+      consecutive_readings INTEGER NOT NULL DEFAULT 1,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (device_id, type)
+    );
+  `);
+
+  // Trend rules (rate of change over a history window)
+  await pool.query(`
+    ALTER TABLE alert_rules
+      ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'threshold',
+      ADD COLUMN IF NOT EXISTS window_minutes INTEGER NOT NULL DEFAULT 60;
+  `);
+
+  // Threshold state per device + alert type (breach streak, fired-and-not-cleared)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS alert_state (
+      device_id TEXT NOT NULL,
+      alert_type TEXT NOT NULL,
+      breach_started_at TIMESTAMPTZ,
+      breach_count INTEGER NOT NULL DEFAULT 0,
+      active BOOLEAN NOT NULL DEFAULT FALSE,
+      last_reading_at TIMESTAMPTZ,
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (device_id, alert_type)
+    );
+  `);
+
   // Alerts history
   await pool.query(`
     CREATE TABLE IF NOT EXISTS alerts (
@@ -39,8 +230,247 @@ export async function ensureSchema() {
     );
   `);
 
+  // Alert lifecycle: open -> acknowledged -> resolved
+  await pool.query(`
+    ALTER TABLE alerts
+      ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'open',
+      ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS acknowledged_by TEXT,
+      ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS resolved_by TEXT;
+  `);
+
   await pool.query(`
     CREATE INDEX IF NOT EXISTS idx_alerts_device_created_at
     ON alerts(device_id, created_at DESC);
   `);
+
+  // Escalation level reached (0 = not escalated) and the log of escalation steps sent
+  await pool.query(`
+    ALTER TABLE alerts
+      ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ;
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS alert_escalations (
+      id BIGSERIAL PRIMARY KEY,
+      alert_id BIGINT NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+      level INTEGER NOT NULL,
+      after_minutes INTEGER NOT NULL,
+      email_to TEXT NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  // Email delivery state of each alert: pending | sent | retrying | failed (NULL = no email)
+  await pool.query(`
+    ALTER TABLE alerts
+      ADD COLUMN IF NOT EXISTS email_status TEXT,
+      ADD COLUMN IF NOT EXISTS email_error TEXT;
+  `);
+  await pool.query(`UPDATE alerts SET email_status = 'sent' WHERE email_sent AND email_status IS NULL`);
+
+  // Email outbox (notifications waiting to be sent / retried)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS email_outbox (
+      id BIGSERIAL PRIMARY KEY,
+      to_addr TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      html TEXT NOT NULL,
+      alert_ids BIGINT[] NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      sent_at TIMESTAMPTZ
+    );
+  `);
+
+  // Plain-text alternative and attachments ([{ filename, contentType, content (base64) }])
+  await pool.query(`
+    ALTER TABLE email_outbox
+      ADD COLUMN IF NOT EXISTS text_body TEXT,
+      ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]'::jsonb;
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_email_outbox_pending
+    ON email_outbox(next_attempt_at) WHERE status = 'pending';
+  `);
+
+  // Maintenance windows: alerts of the listed types (NULL = all) are muted between starts_at and ends_at
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS maintenance_windows (
+      id BIGSERIAL PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      reason TEXT,
+      alert_types TEXT[],
+      created_by TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_maintenance_windows_device
+    ON maintenance_windows(device_id, ends_at);
+  `);
+
+  // Alert email templates per language + severity ('any' = fallback for the language)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS email_templates (
+      id BIGSERIAL PRIMARY KEY,
+      language TEXT NOT NULL,
+      severity TEXT NOT NULL DEFAULT 'any',
+      subject TEXT NOT NULL,
+      html TEXT NOT NULL,
+      text_body TEXT,
+      updated_by TEXT,
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (language, severity)
+    );
+  `);
+
+  // Webhook subscriptions (device_id NULL = all devices) and their delivery log
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id BIGSERIAL PRIMARY KEY,
+      device_id TEXT,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      description TEXT,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      created_by TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id BIGSERIAL PRIMARY KEY,
+      webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      alert_id BIGINT,
+      event TEXT NOT NULL,
+      payload JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_status_code INTEGER,
+      last_error TEXT,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      delivered_at TIMESTAMPTZ
+    );
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending
+    ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+  `);
+
+  // ThingSpeak sync progress per device (see thingspeak.ts)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS thingspeak_sync (
+      device_id TEXT PRIMARY KEY,
+      channel_id INTEGER NOT NULL,
+      last_entry_id BIGINT,
+      last_created_at TIMESTAMPTZ,
+      backfill_before TIMESTAMPTZ,
+      backfill_done BOOLEAN NOT NULL DEFAULT FALSE,
+      imported INTEGER NOT NULL DEFAULT 0,
+      last_synced_at TIMESTAMPTZ,
+      last_error TEXT,
+      last_error_at TIMESTAMPTZ
+    );
+  `);
+
+  // Hourly / daily rollups of sensor_readings (kept after raw rows expire, see rollups.ts).
+  // sum + count instead of avg so buckets can be merged into larger ones.
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS readings_hourly (
+      device_id VARCHAR(50) NOT NULL,
+      bucket TIMESTAMP NOT NULL,
+      count INTEGER NOT NULL,
+      salinity_min DOUBLE PRECISION,
+      salinity_max DOUBLE PRECISION,
+      salinity_sum DOUBLE PRECISION,
+      salinity_count INTEGER NOT NULL DEFAULT 0,
+      ph_min DOUBLE PRECISION,
+      ph_max DOUBLE PRECISION,
+      ph_sum DOUBLE PRECISION,
+      ph_count INTEGER NOT NULL DEFAULT 0,
+      temperature_min DOUBLE PRECISION,
+      temperature_max DOUBLE PRECISION,
+      temperature_sum DOUBLE PRECISION,
+      temperature_count INTEGER NOT NULL DEFAULT 0,
+      battery_min DOUBLE PRECISION,
+      battery_max DOUBLE PRECISION,
+      battery_sum DOUBLE PRECISION,
+      battery_count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (device_id, bucket)
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS readings_daily (
+      device_id VARCHAR(50) NOT NULL,
+      bucket TIMESTAMP NOT NULL,
+      count INTEGER NOT NULL,
+      salinity_min DOUBLE PRECISION,
+      salinity_max DOUBLE PRECISION,
+      salinity_sum DOUBLE PRECISION,
+      salinity_count INTEGER NOT NULL DEFAULT 0,
+      ph_min DOUBLE PRECISION,
+      ph_max DOUBLE PRECISION,
+      ph_sum DOUBLE PRECISION,
+      ph_count INTEGER NOT NULL DEFAULT 0,
+      temperature_min DOUBLE PRECISION,
+      temperature_max DOUBLE PRECISION,
+      temperature_sum DOUBLE PRECISION,
+      temperature_count INTEGER NOT NULL DEFAULT 0,
+      battery_min DOUBLE PRECISION,
+      battery_max DOUBLE PRECISION,
+      battery_sum DOUBLE PRECISION,
+      battery_count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (device_id, bucket)
+    );
+  `);
+
+  // Columns of the metrics added to the catalog after the first four (see metrics.ts)
+  for (const m of METRIC_CATALOG) {
+    await pool.query(`ALTER TABLE sensor_readings ADD COLUMN IF NOT EXISTS ${m.key} DOUBLE PRECISION;`);
+    for (const table of ["readings_hourly", "readings_daily"]) {
+      await pool.query(`
+        ALTER TABLE ${table}
+          ADD COLUMN IF NOT EXISTS ${m.key}_min DOUBLE PRECISION,
+          ADD COLUMN IF NOT EXISTS ${m.key}_max DOUBLE PRECISION,
+          ADD COLUMN IF NOT EXISTS ${m.key}_sum DOUBLE PRECISION,
+          ADD COLUMN IF NOT EXISTS ${m.key}_count INTEGER NOT NULL DEFAULT 0;
+      `);
+    }
+  }
+
+  // Rollup progress: readings up to last_reading_id are rolled up, complete before rolled_until
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS rollup_state (
+      name TEXT PRIMARY KEY,
+      last_reading_id BIGINT NOT NULL DEFAULT 0,
+      rolled_until TIMESTAMP,
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `);
+
+  // Leases of background jobs and per-device syncs (see withLease in db.ts)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS job_leases (
+      name TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+  `);
+
+  await migrateLegacySettingsToRules();
 }
@@ -0,0 +1,250 @@
+import { pool, withLease } from "./db";
+import { inRange } from "./metrics";
+import { READING_METRICS } from "./readings";
+import { envNumber } from "./workers/scheduler";
+
+/**
+ * Server-side ThingSpeak connector: pulls each device's channel feed into sensor_readings, reading
+ * each metric from the field given by the device's field_map (default field1..4 = salinity, pH,
+ * temperature, battery). Values outside the metric's valid range are stored as null.
+ * Every sync fetches the entries newer than the last synced entry_id, newest page first. The
+ * channel's older history is backfilled a few pages per run until its first entry is reached.
+ * Rows are stored with source = 'thingspeak:<channel>' and their entry_id, so an entry fetched
+ * twice is inserted once. THINGSPEAK_BASE_URL points the connector at another server (e.g. a
+ * local fake ThingSpeak for tests).
+ */
+
+/** Channel field (1..8) holding a metric; the stored value is raw * scale + offset. */
+export type FieldMapping = { field: number; metric: string; scale: number; offset: number };
+
+/** Mapping of devices without a field_map. */
+export const DEFAULT_FIELD_MAP: FieldMapping[] = ["salinity", "ph", "temperature", "battery"].map((metric, i) => ({
+  field: i + 1,
+  metric,
+  scale: 1,
+  offset: 0
+}));
+
+/** Validates a device's field_map; null / empty = DEFAULT_FIELD_MAP. */
+export function parseFieldMap(v: any): { fieldMap: FieldMapping[] | null } | { error: string } {
+  if (v === undefined || v === null) return { fieldMap: null };
+  if (!Array.isArray(v)) return { error: "field_map must be an array" };
+  if (!v.length) return { fieldMap: null };
+
+  const fieldMap: FieldMapping[] = [];
+  for (const [i, m] of v.entries()) {
+    const field = Number(m?.field);
+    const metric = String(m?.metric || "");
+    const scale = m?.scale === undefined || m?.scale === null || m?.scale === "" ? 1 : Number(m.scale);
+    const offset = m?.offset === undefined || m?.offset === null || m?.offset === "" ? 0 : Number(m.offset);
+    if (!Number.isInteger(field) || field < 1 || field > 8) {
+      return { error: `Field mapping ${i + 1}: field must be an integer from 1 to 8` };
+    }
+    if (!READING_METRICS.includes(metric)) {
+      return { error: `Field mapping ${i + 1}: metric must be one of ${READING_METRICS.join(", ")}` };
+    }
+    if (!Number.isFinite(scale) || scale === 0) return { error: `Field mapping ${i + 1}: scale must be a non-zero number` };
+    if (!Number.isFinite(offset)) return { error: `Field mapping ${i + 1}: offset must be a number` };
+    if (fieldMap.some((x) => x.field === field)) return { error: `Field mapping ${i + 1}: field${field} is mapped twice` };
+    if (fieldMap.some((x) => x.metric === metric)) return { error: `Field mapping ${i + 1}: ${metric} is mapped twice` };
+    fieldMap.push({ field, metric, scale, offset });
+  }
+  return { fieldMap };
+}
+
+const TIMEOUT_MS = 15000;
+// ThingSpeak returns at most 8000 entries per request
+const MAX_PAGE_SIZE = 8000;
+
+type FeedEntry = { entry_id: number; created_at: string } & Record<string, any>;
+
+type SyncDevice = { id: string; channel_id: number; read_api_key: string | null; field_map: FieldMapping[] | null };
+
+export type SyncResult = { device_id: string; imported: number; backfill_done: boolean; error: string | null };
+
+function baseUrl() {
+  return (process.env.THINGSPEAK_BASE_URL || "https://api.thingspeak.com").trim().replace(/\/+$/, "");
+}
+
+function pageSize() {
+  return Math.min(envNumber("THINGSPEAK_PAGE_SIZE", MAX_PAGE_SIZE), MAX_PAGE_SIZE);
+}
+
+/** "YYYY-MM-DD HH:NN:SS" in UTC, the format of ThingSpeak's start / end parameters. */
+function thingspeakTime(d: Date) {
+  return d.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/** Entries of a channel (optionally between start and end, inclusive), oldest first. */
+async function fetchFeed(channelId: number, apiKey: string | null, range: { start?: Date; end?: Date }) {
+  const url = new URL(`${baseUrl()}/channels/${channelId}/feeds.json`);
+  url.searchParams.set("results", String(pageSize()));
+  url.searchParams.set("timezone", "Etc/UTC");
+  if (apiKey) url.searchParams.set("api_key", apiKey);
+  if (range.start) url.searchParams.set("start", thingspeakTime(range.start));
+  if (range.end) url.searchParams.set("end", thingspeakTime(range.end));
+
+  const res = await fetch(url, {
+    headers: { "User-Agent": "water-monitoring-sync/1.0" },
+    signal: AbortSignal.timeout(TIMEOUT_MS)
+  });
+  const body = await res.text();
+  if (!res.ok) throw new Error(`ThingSpeak HTTP ${res.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
+
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error("ThingSpeak returned invalid JSON");
+  }
+  // A private channel without a valid read key answers "-1"
+  if (!Array.isArray(data?.feeds)) throw new Error("Unexpected ThingSpeak response (private channel without a read API key?)");
+
+  return (data.feeds as FeedEntry[])
+    .filter((f) => Number.isInteger(Number(f?.entry_id)) && !isNaN(Date.parse(f?.created_at)))
+    .map((f) => ({ ...f, entry_id: Number(f.entry_id) }))
+    .sort((a, b) => a.entry_id - b.entry_id);
+}
+
+function numOrNull(v: any) {
+  if (v === null || v === undefined || String(v).trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Inserts the entries not stored yet (by entry_id, or a reading of the device at the same time);
+ * returns how many were new. Only the mapped metrics are written (the others stay null).
+ */
+async function insertEntries(device: SyncDevice, channelId: number, entries: FeedEntry[]) {
+  if (!entries.length) return 0;
+  // Metric keys were validated against the catalog by parseFieldMap, so they are safe as column names
+  const fieldMap = device.field_map?.length ? device.field_map : DEFAULT_FIELD_MAP;
+  const columns = fieldMap.map((m) =>
+    entries.map((e) => {
+      const raw = numOrNull(e[`field${m.field}`]);
+      return raw === null ? null : inRange(m.metric, raw * m.scale + m.offset);
+    })
+  );
+  const metrics = fieldMap.map((m) => m.metric);
+  // created_at is stored as UTC wall-clock time, whatever the session's time zone
+  const r = await pool.query(
+    `INSERT INTO sensor_readings(device_id, created_at, ${metrics.join(", ")}, source, source_entry_id)
+     SELECT $1, t.created_at AT TIME ZONE 'UTC', ${metrics.map((m) => `t.${m}`).join(", ")}, $2, t.entry_id
+     FROM unnest($3::timestamptz[], $4::bigint[], ${metrics.map((_, i) => `$${i + 5}::float8[]`).join(", ")})
+       AS t(created_at, entry_id, ${metrics.join(", ")})
+     ON CONFLICT DO NOTHING`,
+    [
+      device.id,
+      `thingspeak:${channelId}`,
+      entries.map((e) => new Date(e.created_at)),
+      entries.map((e) => e.entry_id),
+      ...columns
+    ]
+  );
+  return r.rowCount || 0;
+}
+
+async function getSyncState(device: SyncDevice) {
+  const r = await pool.query(`SELECT * FROM thingspeak_sync WHERE device_id = $1`, [device.id]);
+  if (r.rows[0] && Number(r.rows[0].channel_id) === Number(device.channel_id)) return r.rows[0];
+  // First sync, or the device was moved to another channel: start over
+  const reset = await pool.query(
+    `INSERT INTO thingspeak_sync(device_id, channel_id) VALUES ($1, $2)
+     ON CONFLICT (device_id) DO UPDATE SET
+       channel_id = EXCLUDED.channel_id, last_entry_id = NULL, last_created_at = NULL,
+       backfill_before = NULL, backfill_done = FALSE, imported = 0, last_error = NULL, last_error_at = NULL
+     RETURNING *`,
+    [device.id, device.channel_id]
+  );
+  return reset.rows[0];
+}
+
+async function runSync(device: SyncDevice): Promise<SyncResult> {
+  const st = await getSyncState(device);
+  const channel = Number(device.channel_id);
+  const size = pageSize();
+  const maxPages = envNumber("THINGSPEAK_MAX_PAGES", 5);
+  const lastEntryId = st.last_entry_id === null ? null : Number(st.last_entry_id);
+
+  let imported = 0;
+  let newest: FeedEntry | null = null;
+  let backfillBefore: Date | null = st.backfill_before;
+  let backfillDone: boolean = st.backfill_done;
+
+  try {
+    // New entries since the last sync, newest page first, until the last synced entry is reached
+    // (never capped: skipping pages would leave a gap). On the first sync this is just the newest
+    // page; the rest is backfilled below.
+    let end: Date | undefined;
+    while (true) {
+      const entries = await fetchFeed(channel, device.read_api_key, { start: st.last_created_at ?? undefined, end });
+      const fresh = lastEntryId === null ? entries : entries.filter((e) => e.entry_id > lastEntryId);
+      imported += await insertEntries(device, channel, fresh);
+      if (fresh.length && (!newest || fresh[fresh.length - 1].entry_id > newest.entry_id)) newest = fresh[fresh.length - 1];
+      if (lastEntryId === null) {
+        backfillBefore = entries.length ? new Date(entries[0].created_at) : null;
+        backfillDone = entries.length < size;
+        break;
+      }
+      if (entries.length < size || fresh.length < entries.length) break;
+      const before = new Date(Date.parse(entries[0].created_at) - 1000);
+      // The server ignored `end`: stop rather than loop
+      if (end && before >= end) break;
+      end = before;
+    }
+
+    // History older than what is stored, a few pages per run
+    for (let page = 0; !backfillDone && backfillBefore && page < maxPages; page++) {
+      const entries = await fetchFeed(channel, device.read_api_key, { end: new Date(backfillBefore.getTime() - 1000) });
+      imported += await insertEntries(device, channel, entries);
+      if (entries.length) backfillBefore = new Date(entries[0].created_at);
+      backfillDone = entries.length < size;
+    }
+
+    await pool.query(
+      `UPDATE thingspeak_sync SET
+         last_entry_id = COALESCE($2, last_entry_id),
+         last_created_at = COALESCE($3, last_created_at),
+         backfill_before = $4,
+         backfill_done = $5,
+         imported = imported + $6,
+         last_synced_at = NOW(),
+         last_error = NULL,
+         last_error_at = NULL
+       WHERE device_id = $1`,
+      [device.id, newest?.entry_id ?? null, newest ? new Date(newest.created_at) : null, backfillBefore, backfillDone, imported]
+    );
+    return { device_id: device.id, imported, backfill_done: backfillDone, error: null };
+  } catch (e: any) {
+    const error = e?.name === "TimeoutError" ? `Timed out after ${TIMEOUT_MS / 1000}s` : String(e?.message || e);
+    // Entries inserted before the failure are kept; they are skipped when fetched again
+    await pool.query(
+      `UPDATE thingspeak_sync SET imported = imported + $2, last_error = $3, last_error_at = NOW() WHERE device_id = $1`,
+      [device.id, imported, error]
+    );
+    return { device_id: device.id, imported, backfill_done: backfillDone, error };
+  }
+}
+
+/** Syncs one device; null when another sync of the same device is running. */
+export async function syncDevice(device: SyncDevice): Promise<SyncResult | null> {
+  let result: SyncResult | null = null;
+  const ran = await withLease(`thingspeak:${device.id}`, async () => {
+    result = await runSync(device);
+  });
+  return ran ? result : null;
+}
+
+/** Syncs every device that has a ThingSpeak channel. */
+export async function syncAllDevices() {
+  const devices = await pool.query(
+    `SELECT id, channel_id, read_api_key, field_map FROM devices WHERE channel_id IS NOT NULL AND channel_id > 0 ORDER BY id`
+  );
+  const results: SyncResult[] = [];
+  for (const d of devices.rows) {
+    const r = await syncDevice(d);
+    if (r) results.push(r);
+  }
+  return results;
+}
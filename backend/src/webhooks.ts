@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import { pool } from "./db";
+import { backoffMs, envNumber } from "./workers/scheduler";
+
+/**
+ * Webhook notifications.
+ * A subscription (device_id NULL = all devices) gets a JSON POST for every new alert.
+ * Deliveries are queued in webhook_deliveries and sent by the webhook worker,
+ * with exponential backoff between attempts.
+ *
+ * Each request is signed: X-Webhook-Signature = "sha256=" + hex HMAC-SHA256(secret, `${timestamp}.${body}`),
+ * with the timestamp (unix seconds) in X-Webhook-Timestamp.
+ */
+
+export const WEBHOOK_COLUMNS = `id, device_id, url, description, enabled, created_by, created_at, updated_at`;
+
+const TIMEOUT_MS = 10000;
+// Retry delays: 30s, 1m, 2m, 4m ... capped at 1h
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * The alert as sent to subscribers: third-party endpoints get the alert itself, not internal
+ * fields such as the email recipients or delivery status.
+ */
+function webhookAlert(alert: any) {
+  const { id, device_id, type, severity, message, value, threshold, status, created_at } = alert;
+  return { id, device_id, type, severity, message, value, threshold, status, created_at };
+}
+
+async function enqueue(webhookId: string, event: string, alertId: string | null, payload: any) {
+  const r = await pool.query(
+    `INSERT INTO webhook_deliveries(webhook_id, alert_id, event, payload)
+     VALUES ($1,$2,$3,$4)
+     RETURNING *`,
+    [webhookId, alertId, event, JSON.stringify(payload)]
+  );
+  return r.rows[0];
+}
+
+/** Queue an `alert.created` delivery for every enabled subscription matching the alert's device. */
+export async function enqueueAlertWebhooks(alert: any) {
+  const hooks = await pool.query(
+    `SELECT id FROM webhooks WHERE enabled AND (device_id IS NULL OR device_id = $1)`,
+    [alert.device_id]
+  );
+  for (const h of hooks.rows) {
+    await enqueue(h.id, "alert.created", alert.id, { event: "alert.created", alert: webhookAlert(alert) });
+  }
+  return hooks.rows.length;
+}
+
+/** Queue a `ping` delivery (admin "test" button). */
+export async function enqueueTestWebhook(webhookId: string) {
+  return enqueue(webhookId, "ping", null, { event: "ping", sent_at: new Date().toISOString() });
+}
+
+async function post(url: string, secret: string, delivery: any) {
+  const body = JSON.stringify({ delivery_id: String(delivery.id), ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "water-monitoring-webhooks/1.0",
+      "X-Webhook-Event": delivery.event,
+      "X-Webhook-Delivery": String(delivery.id),
+      "X-Webhook-Timestamp": String(timestamp),
+      "X-Webhook-Signature": signPayload(secret, timestamp, body)
+    },
+    body,
+    signal: AbortSignal.timeout(TIMEOUT_MS)
+  });
+  // Drain the body so the connection can be reused
+  await res.text().catch(() => "");
+  return res.status;
+}
+
+/**
+ * Send every due delivery once. Failed attempts are rescheduled with backoff
+ * until WEBHOOK_MAX_ATTEMPTS, then marked failed.
+ */
+export async function deliverDueWebhooks(limit = 50) {
+  const due = await pool.query(
+    `SELECT d.*, w.url, w.secret, w.enabled
+     FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= NOW()
+     ORDER BY d.next_attempt_at
+     LIMIT $1`,
+    [limit]
+  );
+
+  let delivered = 0;
+  for (const d of due.rows) {
+    if (!d.enabled) {
+      await pool.query(
+        `UPDATE webhook_deliveries SET status = 'failed', last_error = 'Webhook disabled' WHERE id = $1`,
+        [d.id]
+      );
+      continue;
+    }
+
+    const attempts = Number(d.attempts) + 1;
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      statusCode = await post(d.url, d.secret, d);
+      if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+    } catch (e: any) {
+      error = e?.name === "TimeoutError" ? `Timed out after ${TIMEOUT_MS / 1000}s` : String(e?.cause?.code || e?.message || e);
+    }
+
+    if (!error) {
+      delivered++;
+      await pool.query(
+        `UPDATE webhook_deliveries
+         SET status = 'delivered', attempts = $2, last_status_code = $3, last_error = NULL, delivered_at = NOW()
+         WHERE id = $1`,
+        [d.id, attempts, statusCode]
+      );
+    } else if (attempts >= envNumber("WEBHOOK_MAX_ATTEMPTS", 6)) {
+      await pool.query(
+        `UPDATE webhook_deliveries SET status = 'failed', attempts = $2, last_status_code = $3, last_error = $4
+         WHERE id = $1`,
+        [d.id, attempts, statusCode, error]
+      );
+      console.error(`❌ Webhook delivery ${d.id} to ${d.url} failed after ${attempts} attempt(s): ${error}`);
+    } else {
+      await pool.query(
+        `UPDATE webhook_deliveries
+         SET attempts = $2, last_status_code = $3, last_error = $4,
+             next_attempt_at = NOW() + make_interval(secs => $5::float8)
+         WHERE id = $1`,
+        [d.id, attempts, statusCode, error, backoffMs(attempts, BASE_BACKOFF_MS, MAX_BACKOFF_MS) / 1000]
+      );
+    }
+  }
+  return { attempted: due.rows.length, delivered };
+}
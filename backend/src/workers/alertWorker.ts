@@ -0,0 +1,55 @@
+import { pool } from "../db";
+import { evaluateDeviceReading } from "../alerting";
+import { READING_METRICS } from "../readings";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+function numOrUndefined(v: any) {
+  return v === null || v === undefined ? undefined : Number(v);
+}
+
+/**
+ * Evaluate the latest stored reading of every registered device with alerts enabled. Readings of
+ * deleted devices are kept but no longer evaluated. The latest reading is looked up per device
+ * through the (device_id, created_at) index.
+ */
+export async function evaluateAllDevices() {
+  const latest = await pool.query(
+    `SELECT r.*
+     FROM devices d
+     LEFT JOIN alert_settings s ON s.device_id = d.id
+     JOIN LATERAL (
+       SELECT * FROM sensor_readings WHERE device_id = d.id ORDER BY created_at DESC LIMIT 1
+     ) r ON TRUE
+     WHERE COALESCE(s.enabled, TRUE)
+     ORDER BY d.id`
+  );
+
+  for (const row of latest.rows) {
+    try {
+      const { created } = await evaluateDeviceReading({
+        device_id: row.device_id,
+        createdAt: new Date(row.created_at).toISOString(),
+        ...Object.fromEntries(READING_METRICS.map((m) => [m, numOrUndefined(row[m])]))
+      });
+      if (created.length) {
+        console.log(`🔔 ${row.device_id}: ${created.length} alert(s) created by worker`);
+      }
+    } catch (e) {
+      console.error(`Alert evaluation failed for ${row.device_id}:`, e);
+    }
+  }
+}
+
+/**
+ * Server-side alert evaluation (runs with nobody logged in).
+ * Disable with ALERT_WORKER_ENABLED=false; interval via ALERT_WORKER_INTERVAL_MS.
+ */
+export function startAlertWorker() {
+  if (envDisabled("ALERT_WORKER_ENABLED")) {
+    console.log("ℹ️ Alert worker disabled (ALERT_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("ALERT_WORKER_INTERVAL_MS", 60000);
+  startJob({ name: "alert-evaluation", intervalMs, run: evaluateAllDevices });
+  console.log(`⏱️ Alert worker running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,23 @@
+import { sendDueDigests } from "../digest";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+/**
+ * Queues daily / weekly digest emails when their slot is due (see digest.ts).
+ * Disable with DIGEST_WORKER_ENABLED=false; check interval via DIGEST_WORKER_INTERVAL_MS.
+ */
+export function startDigestWorker() {
+  if (envDisabled("DIGEST_WORKER_ENABLED")) {
+    console.log("ℹ️ Digest worker disabled (DIGEST_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("DIGEST_WORKER_INTERVAL_MS", 5 * 60 * 1000);
+  startJob({
+    name: "digest",
+    intervalMs,
+    run: async () => {
+      const n = await sendDueDigests();
+      if (n) console.log(`📰 Queued ${n} digest email(s)`);
+    }
+  });
+  console.log(`⏱️ Digest worker checking every ${Math.round(intervalMs / 1000)}s`);
+}
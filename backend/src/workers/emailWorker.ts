@@ -0,0 +1,23 @@
+import { sendDueEmails } from "../emailOutbox";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+/**
+ * Sends queued notification emails and retries failed ones.
+ * Disable with EMAIL_WORKER_ENABLED=false; interval via EMAIL_WORKER_INTERVAL_MS.
+ */
+export function startEmailWorker() {
+  if (envDisabled("EMAIL_WORKER_ENABLED")) {
+    console.log("ℹ️ Email worker disabled (EMAIL_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("EMAIL_WORKER_INTERVAL_MS", 15000);
+  startJob({
+    name: "email-outbox",
+    intervalMs,
+    run: async () => {
+      const { attempted, sent } = await sendDueEmails();
+      if (attempted) console.log(`✉️ Email outbox: ${sent}/${attempted} sent`);
+    }
+  });
+  console.log(`⏱️ Email worker running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,23 @@
+import { escalateDueAlerts } from "../escalation";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+/**
+ * Escalates open critical alerts that were not acknowledged in time (see escalation.ts).
+ * Disable with ESCALATION_WORKER_ENABLED=false; interval via ESCALATION_WORKER_INTERVAL_MS.
+ */
+export function startEscalationWorker() {
+  if (envDisabled("ESCALATION_WORKER_ENABLED")) {
+    console.log("ℹ️ Escalation worker disabled (ESCALATION_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("ESCALATION_WORKER_INTERVAL_MS", 60000);
+  startJob({
+    name: "escalation",
+    intervalMs,
+    run: async () => {
+      const n = await escalateDueAlerts();
+      if (n) console.log(`📣 Escalated ${n} alert(s)`);
+    }
+  });
+  console.log(`⏱️ Escalation worker running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,36 @@
+import { pruneRawReadings, rawRetentionDays, rollupReadings } from "../rollups";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+// Batches per tick while catching up on a large backlog (first run on an existing table)
+const MAX_BATCHES_PER_TICK = 10;
+
+/**
+ * Rolls new readings up into hourly / daily buckets, then prunes raw rows older than
+ * READINGS_RETENTION_DAYS (see rollups.ts).
+ * Disable with ROLLUP_WORKER_ENABLED=false; interval via ROLLUP_WORKER_INTERVAL_MS.
+ */
+export function startRollupWorker() {
+  if (envDisabled("ROLLUP_WORKER_ENABLED")) {
+    console.log("ℹ️ Rollup worker disabled (ROLLUP_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("ROLLUP_WORKER_INTERVAL_MS", 300000);
+  startJob({
+    name: "rollup",
+    intervalMs,
+    run: async () => {
+      for (let i = 0; i < MAX_BATCHES_PER_TICK; i++) {
+        const { caughtUp } = await rollupReadings();
+        if (caughtUp) break;
+      }
+      const pruned = await pruneRawReadings();
+      if (pruned) console.log(`🧹 Pruned ${pruned} raw reading(s) older than ${rawRetentionDays()} days`);
+    }
+  });
+  const retention = rawRetentionDays();
+  console.log(
+    `⏱️ Rollup worker running every ${Math.round(intervalMs / 1000)}s (raw readings kept ${
+      retention ? `${retention} days` : "forever"
+    })`
+  );
+}
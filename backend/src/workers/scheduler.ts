@@ -0,0 +1,61 @@
+import { withLease } from "../db";
+
+export function envNumber(k: string, fallback: number) {
+  const n = Number((process.env[k] || "").trim());
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/** Jobs are on by default; `<NAME>=false` turns one off. */
+export function envDisabled(k: string) {
+  return (process.env[k] || "").trim().toLowerCase() === "false";
+}
+
+/** Exponential retry delay: base, 2x base, 4x base ... capped at max. `attempts` counts failures so far (>= 1). */
+export function backoffMs(attempts: number, baseMs: number, maxMs: number) {
+  return Math.min(baseMs * 2 ** Math.max(0, attempts - 1), maxMs);
+}
+
+export type JobOptions = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+};
+
+// Delay between the first ticks of successive jobs
+const STAGGER_MS = 5000;
+let jobsStarted = 0;
+
+/**
+ * Minimal interval scheduler for background jobs.
+ * - A tick never overlaps the previous one on the same instance.
+ * - Each tick runs under a lease named after the job (see withLease),
+ *   so several backend instances never run the same job at the same time.
+ * - First ticks are staggered, so the jobs do not all start (and query) at once.
+ */
+export function startJob({ name, intervalMs, run }: JobOptions) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const ran = await withLease(`job:${name}`, run);
+      if (!ran) console.log(`⏭️ Job ${name} skipped (running on another instance)`);
+    } catch (e) {
+      console.error(`Job ${name} failed:`, e);
+    } finally {
+      running = false;
+    }
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  const first = setTimeout(() => {
+    tick();
+    timer = setInterval(tick, intervalMs);
+  }, jobsStarted++ * STAGGER_MS);
+
+  return () => {
+    clearTimeout(first);
+    clearInterval(timer);
+  };
+}
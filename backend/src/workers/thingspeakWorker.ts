@@ -0,0 +1,25 @@
+import { syncAllDevices } from "../thingspeak";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+/**
+ * Pulls new ThingSpeak entries of every device with a channel into sensor_readings (see thingspeak.ts).
+ * Disable with THINGSPEAK_WORKER_ENABLED=false; interval via THINGSPEAK_WORKER_INTERVAL_MS.
+ */
+export function startThingspeakWorker() {
+  if (envDisabled("THINGSPEAK_WORKER_ENABLED")) {
+    console.log("ℹ️ ThingSpeak sync worker disabled (THINGSPEAK_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("THINGSPEAK_WORKER_INTERVAL_MS", 60000);
+  startJob({
+    name: "thingspeak-sync",
+    intervalMs,
+    run: async () => {
+      for (const r of await syncAllDevices()) {
+        if (r.error) console.error(`ThingSpeak sync of ${r.device_id} failed: ${r.error}`);
+        else if (r.imported) console.log(`📥 ${r.device_id}: ${r.imported} reading(s) imported from ThingSpeak`);
+      }
+    }
+  });
+  console.log(`⏱️ ThingSpeak sync worker running every ${Math.round(intervalMs / 1000)}s`);
+}
@@ -0,0 +1,23 @@
+import { deliverDueWebhooks } from "../webhooks";
+import { envDisabled, envNumber, startJob } from "./scheduler";
+
+/**
+ * Sends queued webhook deliveries (new alerts, test pings) and retries failed ones.
+ * Disable with WEBHOOK_WORKER_ENABLED=false; interval via WEBHOOK_WORKER_INTERVAL_MS.
+ */
+export function startWebhookWorker() {
+  if (envDisabled("WEBHOOK_WORKER_ENABLED")) {
+    console.log("ℹ️ Webhook worker disabled (WEBHOOK_WORKER_ENABLED=false)");
+    return;
+  }
+  const intervalMs = envNumber("WEBHOOK_WORKER_INTERVAL_MS", 10000);
+  startJob({
+    name: "webhook-delivery",
+    intervalMs,
+    run: async () => {
+      const { attempted, delivered } = await deliverDueWebhooks();
+      if (attempted) console.log(`📨 Webhooks: ${delivered}/${attempted} delivered`);
+    }
+  });
+  console.log(`⏱️ Webhook worker running every ${Math.round(intervalMs / 1000)}s`);
+}
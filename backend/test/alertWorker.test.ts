@@ -0,0 +1,45 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { evaluateAllDevices } from "../src/workers/alertWorker";
+
+const DEVICE = "test-worker";
+const DELETED = "test-worker-deleted";
+
+async function alertTypes(deviceId: string) {
+  const r = await pool.query(`SELECT type FROM alerts WHERE device_id = $1 ORDER BY type`, [deviceId]);
+  return r.rows.map((row) => row.type);
+}
+
+describe("evaluateAllDevices", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    await ensureSchema();
+    for (const table of ["sensor_readings", "alerts", "alert_state", "alert_settings", "alert_rules"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = ANY($1)`, [[DEVICE, DELETED]]);
+    }
+    await pool.query(`DELETE FROM devices WHERE id = ANY($1)`, [[DEVICE, DELETED]]);
+    await pool.query(`INSERT INTO devices(id, name) VALUES ($1, $1)`, [DEVICE]);
+    // Both stopped reporting two hours ago (no_data after 60 minutes); only DEVICE is still registered
+    for (const id of [DEVICE, DELETED]) {
+      await pool.query(`INSERT INTO sensor_readings(device_id, created_at, salinity) VALUES ($1, NOW() - INTERVAL '2 hours', 5)`, [
+        id
+      ]);
+    }
+  });
+
+  after(async () => {
+    for (const table of ["sensor_readings", "alerts", "alert_state"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = ANY($1)`, [[DEVICE, DELETED]]);
+    }
+    await pool.query(`DELETE FROM devices WHERE id = $1`, [DEVICE]);
+    await pool.end();
+  });
+
+  it("evaluates registered devices only", async () => {
+    await evaluateAllDevices();
+    assert.deepEqual(await alertTypes(DEVICE), ["no_data"]);
+    assert.deepEqual(await alertTypes(DELETED), []);
+  });
+});
@@ -0,0 +1,92 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { acknowledgeAlert, evaluateDeviceReading } from "../src/alerting";
+
+const DEVICE = "test-alerting";
+
+async function alertCount(type: string) {
+  const r = await pool.query(`SELECT COUNT(*)::int AS n FROM alerts WHERE device_id = $1 AND type = $2`, [DEVICE, type]);
+  return r.rows[0].n;
+}
+
+describe("evaluateDeviceReading", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    await ensureSchema();
+  });
+
+  beforeEach(async () => {
+    for (const table of ["alerts", "alert_state", "alert_settings", "alert_rules", "sensor_readings"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = $1`, [DEVICE]);
+    }
+    // No cooldown, so only the rule state decides whether an alert is created (default rules: salinity > 10)
+    await pool.query(`INSERT INTO alert_settings(device_id, cooldown_minutes) VALUES ($1, 0)`, [DEVICE]);
+  });
+
+  after(async () => {
+    await pool.end();
+  });
+
+  it("creates one alert for a breach evaluated again and again", async () => {
+    const reading = { device_id: DEVICE, createdAt: new Date().toISOString(), salinity: 15 };
+    for (let i = 0; i < 5; i++) await evaluateDeviceReading(reading);
+    assert.equal(await alertCount("salinity_high"), 1);
+  });
+
+  it("does not re-fire after the alert is acknowledged while the breach lasts", async () => {
+    const first = await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date().toISOString(), salinity: 15 });
+    await acknowledgeAlert(first.created[0].id, "tester");
+    for (let i = 0; i < 3; i++) {
+      await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date(Date.now() + i * 1000).toISOString(), salinity: 16 });
+    }
+    assert.equal(await alertCount("salinity_high"), 1);
+  });
+
+  it("fires again once the metric has cleared", async () => {
+    const t = Date.now();
+    await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date(t).toISOString(), salinity: 15 });
+    await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date(t + 1000).toISOString(), salinity: 5 });
+    await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date(t + 2000).toISOString(), salinity: 15 });
+    assert.equal(await alertCount("salinity_high"), 2);
+  });
+
+  it("counts distinct readings toward consecutive_readings", async () => {
+    await pool.query(`UPDATE alert_settings SET rules_migrated = TRUE WHERE device_id = $1`, [DEVICE]);
+    await pool.query(
+      `INSERT INTO alert_rules(device_id, type, kind, metric, operator, value, severity, consecutive_readings)
+       VALUES ($1, 'salinity_high', 'threshold', 'salinity', '>', 10, 'warning', 3)`,
+      [DEVICE]
+    );
+    // Worker ticks that see the same latest reading
+    const t = Date.now();
+    const reading = { device_id: DEVICE, createdAt: new Date(t).toISOString(), salinity: 15 };
+    for (let i = 0; i < 5; i++) await evaluateDeviceReading(reading);
+    assert.equal(await alertCount("salinity_high"), 0);
+
+    for (const i of [1, 2]) {
+      await evaluateDeviceReading({ ...reading, createdAt: new Date(t + i * 60000).toISOString() });
+    }
+    assert.equal(await alertCount("salinity_high"), 1);
+  });
+
+  it("treats an all-null reading as no data", async () => {
+    // The probe's last value is two hours old (no_data after 60 minutes), then it reports only nulls
+    const now = Date.now();
+    await pool.query(
+      `INSERT INTO sensor_readings(device_id, created_at, salinity) VALUES ($1, $2::timestamptz, 5), ($1, $3::timestamptz, NULL)`,
+      [DEVICE, new Date(now - 2 * 3600 * 1000), new Date(now)]
+    );
+    const missing = { device_id: DEVICE, createdAt: new Date(now).toISOString(), salinity: null };
+    const first = await evaluateDeviceReading(missing);
+    assert.deepEqual(first.created.map((a) => a.type), ["no_data"]);
+
+    // More nulls neither resolve it nor create another one; a value resolves it
+    const again = await evaluateDeviceReading(missing);
+    assert.equal(again.resolved.length, 0);
+    assert.equal(await alertCount("no_data"), 1);
+    const back = await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date(now).toISOString(), salinity: 5 });
+    assert.deepEqual(back.resolved.map((a) => a.type), ["no_data"]);
+  });
+});
@@ -0,0 +1,35 @@
+import "./setup";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Writable } from "node:stream";
+import { Response } from "express";
+import { sendCsv } from "../src/csv";
+
+/** A response with a tiny buffer that is drained asynchronously, so every batch waits for "drain". */
+function slowResponse() {
+  const chunks: string[] = [];
+  const res = new Writable({
+    highWaterMark: 16,
+    write(chunk, _enc, cb) {
+      chunks.push(String(chunk));
+      setImmediate(cb);
+    }
+  });
+  return { res: Object.assign(res, { setHeader: () => res }) as unknown as Response, chunks };
+}
+
+describe("sendCsv", () => {
+  it("streams every batch without leaving backpressure listeners behind", async () => {
+    const { res, chunks } = slowResponse();
+    const batches = async function* () {
+      for (let i = 0; i < 50; i++) yield [{ n: i, label: `row ${i}` }];
+    };
+    await sendCsv(res, "test.csv", ["n", "label"], batches());
+
+    assert.equal(res.listenerCount("drain"), 0);
+    assert.equal(res.listenerCount("close"), 0);
+    const lines = chunks.join("").split("\r\n");
+    assert.equal(lines[0], "\uFEFFn,label");
+    assert.equal(lines[50], "49,row 49");
+  });
+});
@@ -0,0 +1,65 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { escalateDueAlerts } from "../src/escalation";
+
+const DEVICE = "test-escalation";
+const TO = "escalation-test@example.com";
+
+async function state(alertId: number) {
+  const a = await pool.query(`SELECT escalation_level FROM alerts WHERE id = $1`, [alertId]);
+  const steps = await pool.query(`SELECT COUNT(*)::int AS n FROM alert_escalations WHERE alert_id = $1`, [alertId]);
+  const emails = await pool.query(`SELECT COUNT(*)::int AS n FROM email_outbox WHERE to_addr = $1`, [TO]);
+  return { level: a.rows[0].escalation_level, steps: steps.rows[0].n, emails: emails.rows[0].n };
+}
+
+describe("escalateDueAlerts", { skip: skipWithoutDb }, () => {
+  let alertId: number;
+
+  before(async () => {
+    await ensureSchema();
+    await pool.query(`DELETE FROM alert_escalations WHERE alert_id IN (SELECT id FROM alerts WHERE device_id = $1)`, [DEVICE]);
+    for (const table of ["alerts", "alert_settings"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = $1`, [DEVICE]);
+    }
+    await pool.query(`DELETE FROM email_outbox WHERE to_addr = $1`, [TO]);
+    await pool.query(`INSERT INTO alert_settings(device_id, escalation_steps) VALUES ($1, $2)`, [
+      DEVICE,
+      JSON.stringify([{ after_minutes: 30, email_to: TO }])
+    ]);
+    const a = await pool.query(
+      `INSERT INTO alerts(device_id, type, severity, message, created_at)
+       VALUES ($1, 'salinity_high', 'critical', 'Salinity is high', NOW() - INTERVAL '1 hour')
+       RETURNING id`,
+      [DEVICE]
+    );
+    alertId = a.rows[0].id;
+  });
+
+  after(async () => {
+    await pool.query(`DROP TRIGGER IF EXISTS test_outbox_fail ON email_outbox`);
+    await pool.query(`DROP FUNCTION IF EXISTS test_outbox_fail()`);
+    await pool.query(`DELETE FROM alert_escalations WHERE alert_id = $1`, [alertId]);
+    await pool.query(`DELETE FROM alerts WHERE device_id = $1`, [DEVICE]);
+    await pool.query(`DELETE FROM alert_settings WHERE device_id = $1`, [DEVICE]);
+    await pool.query(`DELETE FROM email_outbox WHERE to_addr = $1`, [TO]);
+    await pool.end();
+  });
+
+  it("leaves the step due when its email cannot be queued", async () => {
+    await pool.query(`
+      CREATE OR REPLACE FUNCTION test_outbox_fail() RETURNS trigger AS $$
+      BEGIN RAISE EXCEPTION 'outbox unavailable'; END $$ LANGUAGE plpgsql
+    `);
+    await pool.query(`CREATE TRIGGER test_outbox_fail BEFORE INSERT ON email_outbox FOR EACH ROW EXECUTE FUNCTION test_outbox_fail()`);
+
+    assert.equal(await escalateDueAlerts(), 0);
+    assert.deepEqual(await state(alertId), { level: 0, steps: 0, emails: 0 });
+
+    await pool.query(`DROP TRIGGER test_outbox_fail ON email_outbox`);
+    assert.equal(await escalateDueAlerts(), 1);
+    assert.deepEqual(await state(alertId), { level: 1, steps: 1, emails: 1 });
+  });
+});
@@ -0,0 +1,66 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { ingestReadingBatch } from "../src/readingBatch";
+
+const DEVICE = "test-batch";
+
+/** `n` readings one minute apart, the newest a minute ago; `salinity(i)` for the i-th oldest. */
+function outage(n: number, salinity: (i: number) => number) {
+  const newest = Math.floor(Date.now() / 60000) * 60000 - 60000;
+  return Array.from({ length: n }, (_, i) => ({
+    created_at: new Date(newest - (n - 1 - i) * 60000).toISOString(),
+    salinity: salinity(i)
+  }));
+}
+
+async function storedCount() {
+  const r = await pool.query(`SELECT COUNT(*)::int AS n FROM sensor_readings WHERE device_id = $1`, [DEVICE]);
+  return r.rows[0].n;
+}
+
+describe("ingestReadingBatch", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    await ensureSchema();
+  });
+
+  beforeEach(async () => {
+    for (const table of ["sensor_readings", "alerts", "alert_state", "alert_settings", "alert_rules"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = $1`, [DEVICE]);
+    }
+    // No cooldown; default rules (salinity > 10, one reading)
+    await pool.query(`INSERT INTO alert_settings(device_id, cooldown_minutes) VALUES ($1, 0)`, [DEVICE]);
+  });
+
+  after(async () => {
+    await pool.end();
+  });
+
+  it("raises the alert of a breach in the middle of the upload", async () => {
+    // A breach during the outage, over before its end: one alert, resolved by the later readings
+    const r = await ingestReadingBatch(DEVICE, outage(500, (i) => (i >= 100 && i < 200 ? 15 : 5)));
+    assert.equal(r.alertsCreated, 1);
+    const alerts = await pool.query(`SELECT status FROM alerts WHERE device_id = $1 AND type = 'salinity_high'`, [DEVICE]);
+    assert.deepEqual(
+      alerts.rows.map((a) => a.status),
+      ["resolved"]
+    );
+  });
+
+  it("raises the alert of a breach at the end of the upload", async () => {
+    const r = await ingestReadingBatch(DEVICE, outage(500, (i) => (i === 499 ? 15 : 5)));
+    assert.equal(r.alertsCreated, 1);
+  });
+
+  it("stores each reading once when the same batch is uploaded concurrently", async () => {
+    const items = outage(300, () => 5);
+    const [a, b] = await Promise.all([ingestReadingBatch(DEVICE, items), ingestReadingBatch(DEVICE, items)]);
+    const inserted = [...a.results, ...b.results].filter((r) => r.status === "inserted").length;
+    const duplicates = [...a.results, ...b.results].filter((r) => r.status === "duplicate").length;
+    assert.equal(inserted, 300);
+    assert.equal(duplicates, 300);
+    assert.equal(await storedCount(), 300);
+  });
+});
@@ -0,0 +1,56 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { queryReadingsPage } from "../src/readingQueries";
+import { Cursor, decodeCursor } from "../src/readings";
+
+const DEVICES = ["test-pages-a", "test-pages-b", "test-pages-c"];
+
+describe("queryReadingsPage", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    await ensureSchema();
+    process.env.READINGS_RETENTION_DAYS = "30";
+    await pool.query(`DELETE FROM readings_hourly WHERE device_id = ANY($1)`, [DEVICES]);
+    // Two pruned hours, each with one hourly row per device: rows that share created_at
+    for (const hoursAgo of [24 * 40, 24 * 40 + 1]) {
+      for (const [i, device] of DEVICES.entries()) {
+        await pool.query(
+          `INSERT INTO readings_hourly(device_id, bucket, count, salinity_sum, salinity_count)
+           VALUES ($1, date_trunc('hour', LOCALTIMESTAMP) - make_interval(hours => $2), 1, $3, 1)`,
+          [device, hoursAgo, i + 1]
+        );
+      }
+    }
+  });
+
+  after(async () => {
+    await pool.query(`DELETE FROM readings_hourly WHERE device_id = ANY($1)`, [DEVICES]);
+    delete process.env.READINGS_RETENTION_DAYS;
+    await pool.end();
+  });
+
+  for (const order of ["asc", "desc"] as const) {
+    it(`returns every hourly row once when pages split an hour (${order})`, async () => {
+      const seen: string[] = [];
+      let cursor: Cursor | null = null;
+      do {
+        const page = await queryReadingsPage({
+          deviceIds: DEVICES,
+          from: null,
+          to: null,
+          columns: "id, device_id, created_at",
+          order,
+          limit: 2,
+          cursor
+        });
+        seen.push(...page.rows.map((r: any) => `${r.device_id}@${r.created_at.toISOString()}`));
+        cursor = page.next_cursor ? decodeCursor(page.next_cursor) : null;
+      } while (cursor);
+
+      assert.equal(seen.length, 6);
+      assert.equal(new Set(seen).size, 6);
+    });
+  }
+});
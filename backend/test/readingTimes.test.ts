@@ -0,0 +1,95 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { createReading } from "../src/controllers/readingsController";
+import { ingestReadingBatch } from "../src/readingBatch";
+import { queryReadingsPage } from "../src/readingQueries";
+import { evaluateDeviceReading } from "../src/alerting";
+
+// Neither the database session nor the process runs in UTC: stored times must not shift
+process.env.TZ = "Asia/Ho_Chi_Minh";
+
+const DEVICE = "test-reading-times";
+
+async function storedTimes() {
+  const r = await pool.query(`SELECT created_at::text AS t FROM sensor_readings WHERE device_id = $1 ORDER BY created_at`, [
+    DEVICE
+  ]);
+  return r.rows.map((row) => row.t);
+}
+
+/** `createReading` as called by the route, after the device key check. */
+async function postReading(body: any) {
+  let status = 0;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json: () => res
+  };
+  await createReading({ body, deviceKey: { device_id: DEVICE } } as unknown as Request, res as unknown as Response);
+  return status;
+}
+
+describe("reading times", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    pool.on("connect", (client) => {
+      client.query(`SET TIME ZONE 'America/Sao_Paulo'`).catch(() => {});
+    });
+    await ensureSchema();
+  });
+
+  beforeEach(async () => {
+    for (const table of ["sensor_readings", "alerts", "alert_state", "alert_settings"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = $1`, [DEVICE]);
+    }
+  });
+
+  after(async () => {
+    for (const table of ["sensor_readings", "alerts", "alert_state"]) {
+      await pool.query(`DELETE FROM ${table} WHERE device_id = $1`, [DEVICE]);
+    }
+    await pool.end();
+  });
+
+  it("stores posted readings at the current UTC time", async () => {
+    const before = Date.now();
+    assert.equal(await postReading({ device_id: DEVICE, salinity: 5 }), 201);
+    const [t] = await storedTimes();
+    const stored = Date.parse(`${t.replace(" ", "T")}Z`);
+    assert.ok(Math.abs(stored - before) < 60000, `stored ${t}, expected about ${new Date(before).toISOString()}`);
+  });
+
+  it("stores batch readings at their UTC time and returns them unchanged", async () => {
+    await ingestReadingBatch(DEVICE, [
+      { created_at: "2024-01-15T12:00:00Z", salinity: 5 },
+      { created_at: "2024-01-15T20:30:00+07:00", salinity: 6 }
+    ]);
+    assert.deepEqual(await storedTimes(), ["2024-01-15 12:00:00", "2024-01-15 13:30:00"]);
+
+    const page = await queryReadingsPage({
+      deviceIds: [DEVICE],
+      from: null,
+      to: null,
+      columns: "device_id, created_at",
+      order: "asc",
+      limit: 10,
+      cursor: null
+    });
+    assert.deepEqual(
+      page.rows.map((r: any) => r.created_at.toISOString()),
+      ["2024-01-15T12:00:00.000Z", "2024-01-15T13:30:00.000Z"]
+    );
+  });
+
+  it("sees a fresh reading as fresh in the no-data check", async () => {
+    // A dead probe reports nulls; its last value, posted just now, is not stale
+    assert.equal(await postReading({ device_id: DEVICE, salinity: 5 }), 201);
+    const r = await evaluateDeviceReading({ device_id: DEVICE, createdAt: new Date().toISOString(), salinity: null });
+    assert.deepEqual(r.created, []);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Imported first by every test. Database tests run against TEST_DATABASE_URL, a scratch database:
+ * the schema is created there and the tests' rows are deleted. Without it they are skipped.
+ */
+export const testDatabaseUrl = process.env.TEST_DATABASE_URL || "";
+
+if (testDatabaseUrl) process.env.DATABASE_URL = testDatabaseUrl;
+
+export const skipWithoutDb = testDatabaseUrl ? false : "TEST_DATABASE_URL is not set";
+
+// Background jobs are never started by the tests, but keep the logs quiet if a module checks these
+process.env.WEBHOOK_WORKER_ENABLED = "false";
@@ -0,0 +1,107 @@
+import { skipWithoutDb } from "./setup";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { pool } from "../src/db";
+import { ensureSchema } from "../src/schema";
+import { syncDevice } from "../src/thingspeak";
+
+const DEVICE = { id: "test-thingspeak", channel_id: 9001, read_api_key: null, field_map: null };
+const START = Date.UTC(2024, 0, 15, 12, 0, 0);
+
+// The fake channel: one entry per minute, ThingSpeak's feed semantics (the newest `results` entries
+// between start and end, oldest first)
+const entries: { entry_id: number; created_at: string; field1: string }[] = [];
+
+function addEntries(n: number) {
+  for (let i = 0; i < n; i++) {
+    const id = entries.length + 1;
+    entries.push({ entry_id: id, created_at: new Date(START + id * 60000).toISOString().replace(".000", ""), field1: String(id) });
+  }
+}
+
+const fakeThingSpeak = http.createServer((req, res) => {
+  const url = new URL(req.url || "", "http://localhost");
+  if (url.pathname !== `/channels/${DEVICE.channel_id}/feeds.json`) {
+    res.writeHead(404).end("-1");
+    return;
+  }
+  const time = (k: string) => (url.searchParams.get(k) ? Date.parse(`${url.searchParams.get(k)}Z`) : null);
+  const start = time("start");
+  const end = time("end");
+  const results = Number(url.searchParams.get("results"));
+  const feeds = entries
+    .filter((e) => (start === null || Date.parse(e.created_at) >= start) && (end === null || Date.parse(e.created_at) <= end))
+    .slice(-results);
+  res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ channel: { id: DEVICE.channel_id }, feeds }));
+});
+
+async function storedReadings() {
+  const r = await pool.query(
+    `SELECT source_entry_id::int AS entry_id, to_char(created_at, 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS created_at, salinity
+     FROM sensor_readings WHERE device_id = $1 ORDER BY source_entry_id`,
+    [DEVICE.id]
+  );
+  return r.rows;
+}
+
+describe("ThingSpeak sync", { skip: skipWithoutDb }, () => {
+  before(async () => {
+    // A session time zone other than UTC must not shift the stored times
+    pool.on("connect", (client) => {
+      client.query(`SET TIME ZONE 'America/Sao_Paulo'`).catch(() => {});
+    });
+    await ensureSchema();
+    await pool.query(`DELETE FROM sensor_readings WHERE device_id = $1`, [DEVICE.id]);
+    await pool.query(`DELETE FROM thingspeak_sync WHERE device_id = $1`, [DEVICE.id]);
+
+    await new Promise<void>((resolve) => fakeThingSpeak.listen(0, "127.0.0.1", resolve));
+    process.env.THINGSPEAK_BASE_URL = `http://127.0.0.1:${(fakeThingSpeak.address() as AddressInfo).port}`;
+    process.env.THINGSPEAK_PAGE_SIZE = "3";
+    process.env.THINGSPEAK_MAX_PAGES = "2";
+    addEntries(10);
+  });
+
+  after(async () => {
+    await pool.query(`DELETE FROM sensor_readings WHERE device_id = $1`, [DEVICE.id]);
+    await pool.query(`DELETE FROM thingspeak_sync WHERE device_id = $1`, [DEVICE.id]);
+    fakeThingSpeak.close();
+    await pool.end();
+  });
+
+  it("imports the newest page, then backfills the history a few pages per run", async () => {
+    // Newest page (8..10) and two backfill pages (2..7)
+    const first = await syncDevice(DEVICE);
+    assert.deepEqual(first, { device_id: DEVICE.id, imported: 9, backfill_done: false, error: null });
+
+    // The last backfill page is short: the channel's first entry is reached
+    const second = await syncDevice(DEVICE);
+    assert.deepEqual(second, { device_id: DEVICE.id, imported: 1, backfill_done: true, error: null });
+
+    const rows = await storedReadings();
+    assert.deepEqual(
+      rows,
+      entries.map((e) => ({ entry_id: e.entry_id, created_at: e.created_at, salinity: Number(e.field1) }))
+    );
+  });
+
+  it("imports nothing when re-synced without new entries", async () => {
+    const again = await syncDevice(DEVICE);
+    assert.equal(again?.imported, 0);
+    assert.equal((await storedReadings()).length, entries.length);
+  });
+
+  it("pages through new entries once, even when the sync state is lost", async () => {
+    addEntries(7);
+    const r = await syncDevice(DEVICE);
+    assert.equal(r?.imported, 7);
+
+    // Start over from scratch: every entry is fetched again and none is stored twice
+    await pool.query(`DELETE FROM thingspeak_sync WHERE device_id = $1`, [DEVICE.id]);
+    for (let i = 0; i < 10; i++) await syncDevice(DEVICE);
+    const rows = await storedReadings();
+    assert.equal(rows.length, entries.length);
+    assert.equal(new Set(rows.map((row) => row.entry_id)).size, entries.length);
+  });
+});
@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import {
+  AlertRule,
+  createAlertRule,
+  deleteAlertRule,
+  fetchAlertRules,
+  fetchAlertSettings,
+  saveAlertSettings,
+  updateAlertRule
+} from "../../services/backend";
+import { useMetrics } from "../../hooks/useMetrics";
+import { useDevices } from "../../context/DevicesContext";
+
+const OPERATORS: AlertRule["operator"][] = [">", ">=", "<", "<="];
+
+const KINDS: { value: AlertRule["kind"]; label: string }[] = [
+  { value: "threshold", label: "Value" },
+  { value: "rate", label: "Rate /h" },
+  { value: "change", label: "Change" }
+];
+
+// Numeric fields are kept as strings while editing
+type Draft = {
+  id?: string;
+  type: string;
+  kind: AlertRule["kind"];
+  metric: string;
+  operator: AlertRule["operator"];
+  value: string;
+  clear_value: string;
+  severity: AlertRule["severity"];
+  duration_minutes: string;
+  consecutive_readings: string;
+  window_minutes: string;
+  enabled: boolean;
+};
+
+const emptyDraft: Draft = {
+  type: "",
+  kind: "threshold",
+  metric: "temperature",
+  operator: ">",
+  value: "",
+  clear_value: "",
+  severity: "warning",
+  duration_minutes: "0",
+  consecutive_readings: "1",
+  window_minutes: "60",
+  enabled: true
+};
+
+function toDraft(r: AlertRule): Draft {
+  return {
+    id: r.id,
+    type: r.type,
+    kind: r.kind,
+    metric: r.metric,
+    operator: r.operator,
+    value: String(r.value),
+    clear_value: r.clear_value === null ? "" : String(r.clear_value),
+    severity: r.severity,
+    duration_minutes: String(r.duration_minutes),
+    consecutive_readings: String(r.consecutive_readings),
+    window_minutes: String(r.window_minutes),
+    enabled: r.enabled
+  };
+}
+
+function toRule(deviceId: string, d: Draft): AlertRule {
+  return {
+    id: d.id,
+    device_id: deviceId,
+    type: d.type.trim(),
+    kind: d.kind,
+    metric: d.metric,
+    operator: d.operator,
+    value: Number(d.value),
+    clear_value: d.clear_value.trim() === "" ? null : Number(d.clear_value),
+    severity: d.severity,
+    duration_minutes: Number(d.duration_minutes || 0),
+    consecutive_readings: Number(d.consecutive_readings || 1),
+    window_minutes: Number(d.window_minutes || 60),
+    enabled: d.enabled
+  };
+}
+
+const cell = "rounded-lg border border-slate-200 px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+export default function AlertRulesEditor({ deviceId }: { deviceId: string }) {
+  const [rules, setRules] = useState<Draft[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [error, setError] = useState("");
+  const { metrics } = useMetrics();
+  const { reloadDevices } = useDevices();
+
+  const reload = (id: string) =>
+    fetchAlertRules(id)
+      .then((r) => setRules(r.map(toDraft)))
+      .catch(() => setError("Failed to load rules (check backend / DB)."));
+
+  useEffect(() => {
+    setError("");
+    setDraft(emptyDraft);
+    if (deviceId) reload(deviceId);
+  }, [deviceId]);
+
+  // Rules without an id are the built-in defaults; they become editable once copied to the device
+  const usingDefaults = rules.length > 0 && rules.some((r) => !r.id);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError("");
+    try {
+      await action();
+      await reload(deviceId);
+      // Status thresholds of the dashboard follow the rules
+      reloadDevices().catch(() => {});
+      return true;
+    } catch (e: any) {
+      setError(e?.response?.data?.error || "Request failed (check backend / DB).");
+      return false;
+    }
+  };
+
+  // Row -1 is the "add rule" draft
+  const patchRow = (i: number, patch: Partial<Draft>) =>
+    i < 0
+      ? setDraft((d) => ({ ...d, ...patch }))
+      : setRules((rs) => rs.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const renderFields = (d: Draft, i: number, disabled: boolean) => (
+    <>
+      <td className="py-2 pr-2">
+        <input
+          value={d.type}
+          onChange={(e) => patchRow(i, { type: e.target.value })}
+          disabled={disabled || Boolean(d.id)} // the type of a saved rule cannot change
+          className={`${cell} w-40 font-mono`}
+          placeholder="auto"
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <select
+          value={d.kind}
+          onChange={(e) => patchRow(i, { kind: e.target.value as AlertRule["kind"] })}
+          disabled={disabled}
+          className={cell}
+        >
+          {KINDS.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <select value={d.metric} onChange={(e) => patchRow(i, { metric: e.target.value })} disabled={disabled} className={cell}>
+          {metrics.map((m) => (
+            <option key={m.key} value={m.key}>
+              {m.name}
+              {m.unit ? ` (${m.unit})` : ""}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <select
+          value={d.operator}
+          onChange={(e) => patchRow(i, { operator: e.target.value as AlertRule["operator"] })}
+          disabled={disabled}
+          className={cell}
+        >
+          {OPERATORS.map((op) => (
+            <option key={op} value={op}>
+              {op}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <input value={d.value} onChange={(e) => patchRow(i, { value: e.target.value })} disabled={disabled} className={`${cell} w-20`} />
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          value={d.clear_value}
+          onChange={(e) => patchRow(i, { clear_value: e.target.value })}
+          disabled={disabled}
+          className={`${cell} w-20`}
+          placeholder="—"
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <select
+          value={d.severity}
+          onChange={(e) => patchRow(i, { severity: e.target.value as AlertRule["severity"] })}
+          disabled={disabled}
+          className={cell}
+        >
+          <option value="warning">warning</option>
+          <option value="critical">critical</option>
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          value={d.duration_minutes}
+          onChange={(e) => patchRow(i, { duration_minutes: e.target.value })}
+          disabled={disabled}
+          className={`${cell} w-16`}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          value={d.consecutive_readings}
+          onChange={(e) => patchRow(i, { consecutive_readings: e.target.value })}
+          disabled={disabled}
+          className={`${cell} w-16`}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          value={d.kind === "threshold" ? "" : d.window_minutes}
+          onChange={(e) => patchRow(i, { window_minutes: e.target.value })}
+          disabled={disabled || d.kind === "threshold"}
+          className={`${cell} w-16`}
+          placeholder="—"
+        />
+      </td>
+      <td className="py-2 pr-2 text-center">
+        <input
+          type="checkbox"
+          checked={d.enabled}
+          onChange={(e) => patchRow(i, { enabled: e.target.checked })}
+          disabled={disabled}
+          className="h-4 w-4"
+        />
+      </td>
+    </>
+  );
+
+  return (
+    <div>
+      <div className="text-sm font-semibold text-slate-600">Alert rules</div>
+      <div className="mt-1 text-xs text-slate-500">
+        Each rule compares one metric against a value. Add several rules per metric for tiers (e.g. temperature &gt; 30
+        warning, &gt; 33 critical). "Clear" adds hysteresis: an alert stays open until the value goes past it. "Minutes"
+        and "Readings" fire only after the breach lasts that long. Rate rules compare the trend over the last "Window"
+        minutes (units per hour, e.g. salinity rate &gt; 2), change rules the change across the window (e.g. pH change
+        &lt; -0.5 within 30 min).
+      </div>
+
+      {usingDefaults ? (
+        <div className="mt-3 flex flex-wrap items-center gap-3 rounded-xl bg-brand-50 border border-brand-200 p-3 text-sm text-brand-800">
+          This device uses the default rules.
+          <button
+            onClick={() => run(async () => saveAlertSettings(deviceId, await fetchAlertSettings(deviceId)))}
+            className="rounded-lg bg-white border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+          >
+            Customize
+          </button>
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="mt-3 rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+      ) : null}
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-600 border-b">
+              <th className="py-2 pr-2">Type</th>
+              <th className="py-2 pr-2">Kind</th>
+              <th className="py-2 pr-2">Metric</th>
+              <th className="py-2 pr-2">Op</th>
+              <th className="py-2 pr-2">Value</th>
+              <th className="py-2 pr-2">Clear</th>
+              <th className="py-2 pr-2">Severity</th>
+              <th className="py-2 pr-2">Minutes</th>
+              <th className="py-2 pr-2">Readings</th>
+              <th className="py-2 pr-2">Window</th>
+              <th className="py-2 pr-2">On</th>
+              <th className="py-2 pr-0"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((r, i) => (
+              <tr key={r.id || r.type} className="border-b">
+                {renderFields(r, i, !r.id)}
+                <td className="py-2 pr-0 whitespace-nowrap">
+                  {r.id && (
+                    <>
+                      <button
+                        onClick={() => run(() => updateAlertRule(toRule(deviceId, r)))}
+                        className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => run(() => deleteAlertRule(r.id as string))}
+                        className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 font-semibold text-red-700 hover:bg-red-100"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+            <tr>
+              {renderFields(draft, -1, false)}
+              <td className="py-2 pr-0">
+                <button
+                  onClick={async () => {
+                    if (await run(() => createAlertRule(toRule(deviceId, draft)))) setDraft(emptyDraft);
+                  }}
+                  disabled={!draft.value.trim()}
+                  className="rounded-lg bg-brand-700 px-3 py-1.5 font-semibold text-white hover:bg-brand-800 disabled:opacity-40"
+                >
+                  Add
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
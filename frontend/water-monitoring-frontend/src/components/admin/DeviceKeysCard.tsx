@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import Card from "../ui/Card";
+import { Device } from "../../types/device";
+import {
+  DeviceKey,
+  fetchDeviceKeys,
+  issueDeviceKey,
+  revokeDeviceKey,
+  rotateDeviceKey
+} from "../../services/backend";
+
+function formatTime(s: string | null) {
+  return s ? new Date(s).toLocaleString() : "—";
+}
+
+export default function DeviceKeysCard({ devices }: { devices: Device[] }) {
+  const [deviceId, setDeviceId] = useState(devices[0]?.id || "");
+  const [keys, setKeys] = useState<DeviceKey[]>([]);
+  const [label, setLabel] = useState("");
+  // Plain key from the last issue / rotate (shown once)
+  const [issued, setIssued] = useState<DeviceKey | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!deviceId && devices[0]?.id) setDeviceId(devices[0].id);
+  }, [devices, deviceId]);
+
+  const reload = (id: string) =>
+    fetchDeviceKeys(id)
+      .then(setKeys)
+      .catch(() => setError("Failed to load keys (check backend / DB)."));
+
+  useEffect(() => {
+    setIssued(null);
+    setError("");
+    if (deviceId) reload(deviceId);
+  }, [deviceId]);
+
+  const run = async (action: () => Promise<DeviceKey>, showKey: boolean) => {
+    setError("");
+    try {
+      const k = await action();
+      setIssued(showKey ? k : null);
+      await reload(deviceId);
+    } catch {
+      setError("Request failed (check backend / DB).");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="text-lg font-extrabold text-brand-800">Ingestion API Keys</div>
+      <div className="mt-2 text-sm text-slate-600">
+        Field gateways send readings to <code>POST /api/readings</code> with an <code>X-Device-Key</code> header.
+        Keys are stored hashed; copy a new key when it is shown, it cannot be displayed again.
+      </div>
+
+      {devices.length === 0 ? (
+        <div className="mt-4 text-sm text-slate-500">Add at least 1 device first.</div>
+      ) : (
+        <div className="mt-5 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="text-sm font-semibold text-slate-600">Select Device</label>
+              <select
+                value={deviceId}
+                onChange={(e) => setDeviceId(e.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+              >
+                {devices.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name} ({d.id})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-slate-600">Label (optional)</label>
+              <input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                placeholder="vd: gateway-01"
+              />
+            </div>
+            <button
+              onClick={() => run(() => issueDeviceKey(deviceId, label.trim()), true).then(() => setLabel(""))}
+              className="rounded-xl bg-brand-700 px-5 py-3 text-white font-extrabold hover:bg-brand-800"
+            >
+              Issue New Key
+            </button>
+          </div>
+
+          {issued?.key ? (
+            <div className="rounded-xl bg-emerald-50 border border-emerald-200 p-3 text-sm text-emerald-900">
+              New key for <b>{issued.device_id}</b>: <code className="break-all font-bold">{issued.key}</code>
+            </div>
+          ) : null}
+
+          {error ? (
+            <div className="rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div>
+          ) : null}
+
+          {keys.length === 0 ? (
+            <div className="text-sm text-slate-500">No keys issued for this device.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-600 border-b">
+                    <th className="py-2 pr-4">Key</th>
+                    <th className="py-2 pr-4">Label</th>
+                    <th className="py-2 pr-4">Created</th>
+                    <th className="py-2 pr-4">Last used</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-0"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((k) => (
+                    <tr key={k.id} className="border-b last:border-0">
+                      <td className="py-3 pr-4 font-mono">{k.key_prefix}…</td>
+                      <td className="py-3 pr-4">{k.label || "—"}</td>
+                      <td className="py-3 pr-4 whitespace-nowrap">{formatTime(k.created_at)}</td>
+                      <td className="py-3 pr-4 whitespace-nowrap">{formatTime(k.last_used_at)}</td>
+                      <td className="py-3 pr-4">
+                        {k.revoked_at ? (
+                          <span className="text-slate-500">revoked {formatTime(k.revoked_at)}</span>
+                        ) : (
+                          <span className="font-semibold text-emerald-700">active</span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-0 whitespace-nowrap">
+                        {!k.revoked_at && (
+                          <>
+                            <button
+                              onClick={() => run(() => rotateDeviceKey(deviceId, k.id), true)}
+                              className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                            >
+                              Rotate
+                            </button>
+                            <button
+                              onClick={() => run(() => revokeDeviceKey(deviceId, k.id), false)}
+                              className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 font-semibold text-red-700 hover:bg-red-100"
+                            >
+                              Revoke
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
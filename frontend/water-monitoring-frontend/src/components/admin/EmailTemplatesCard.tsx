@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import Card from "../ui/Card";
+import { Device } from "../../types/device";
+import {
+  EmailTemplate,
+  RenderedEmail,
+  TemplateSeverity,
+  deleteEmailTemplate,
+  fetchEmailTemplateDefaults,
+  fetchEmailTemplates,
+  previewEmailTemplate,
+  saveEmailTemplate,
+  sendTestEmailTemplate
+} from "../../services/backend";
+
+const SEVERITIES: TemplateSeverity[] = ["any", "warning", "critical"];
+
+const inputCls =
+  "mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+export default function EmailTemplatesCard({ devices }: { devices: Device[] }) {
+  const [stored, setStored] = useState<EmailTemplate[]>([]);
+  const [builtIn, setBuiltIn] = useState<EmailTemplate[]>([]);
+  const [placeholders, setPlaceholders] = useState<Record<string, string>>({});
+  const [language, setLanguage] = useState("en");
+  const [severity, setSeverity] = useState<TemplateSeverity>("any");
+  const [draft, setDraft] = useState<EmailTemplate | null>(null);
+  const [deviceId, setDeviceId] = useState("");
+  const [testTo, setTestTo] = useState("");
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+
+  const reload = () =>
+    fetchEmailTemplates()
+      .then(setStored)
+      .catch(() => setError("Failed to load email templates (check backend / DB)."));
+
+  useEffect(() => {
+    reload();
+    fetchEmailTemplateDefaults()
+      .then((d) => {
+        setBuiltIn(d.templates);
+        setPlaceholders(d.placeholders);
+      })
+      .catch(() => {});
+  }, []);
+
+  const current = stored.find((t) => t.language === language && t.severity === severity) || null;
+
+  // Edit the stored template, or start from the one emails currently fall back to
+  useEffect(() => {
+    const base =
+      stored.find((t) => t.language === language && t.severity === severity) ||
+      stored.find((t) => t.language === language && t.severity === "any") ||
+      builtIn.find((t) => t.language === language) ||
+      builtIn.find((t) => t.language === "en");
+    setDraft(base ? { ...base, language, severity } : null);
+    setPreview(null);
+  }, [language, severity, stored, builtIn]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      return true;
+    } catch (e: any) {
+      setError(e?.response?.data?.error || "Request failed (check backend / DB).");
+      return false;
+    }
+  };
+
+  const languages = Array.from(new Set(["en", "vi", ...stored.map((t) => t.language)]));
+
+  return (
+    <Card className="p-6">
+      <div className="text-lg font-extrabold text-brand-800">Alert Email Templates</div>
+      <div className="mt-2 text-sm text-slate-600">
+        Subject and body of alert emails per language and severity (<b>any</b> is the fallback for a language). Values are
+        inserted with placeholders like <code>{"{{device_name}}"}</code> and escaped in the HTML.
+      </div>
+
+      <div className="mt-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Language</label>
+            <input
+              list="email-template-languages"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value.trim().toLowerCase())}
+              className={inputCls}
+              placeholder="en"
+            />
+            <datalist id="email-template-languages">
+              {languages.map((l) => (
+                <option key={l} value={l} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Severity</label>
+            <select value={severity} onChange={(e) => setSeverity(e.target.value as TemplateSeverity)} className={inputCls}>
+              {SEVERITIES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="text-sm text-slate-500 md:self-end md:pb-3">
+            {current
+              ? `Custom template (updated ${current.updated_at ? new Date(current.updated_at).toLocaleString() : "—"}${
+                  current.updated_by ? ` by ${current.updated_by}` : ""
+                })`
+              : "Not customized: starting from the fallback template"}
+          </div>
+        </div>
+
+        {draft ? (
+          <>
+            <div>
+              <label className="text-sm font-semibold text-slate-600">Subject</label>
+              <input value={draft.subject} onChange={(e) => setDraft({ ...draft, subject: e.target.value })} className={inputCls} />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-slate-600">HTML body</label>
+              <textarea
+                value={draft.html}
+                onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                rows={10}
+                className={inputCls + " font-mono text-sm"}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-semibold text-slate-600">Text body (optional)</label>
+              <textarea
+                value={draft.text || ""}
+                onChange={(e) => setDraft({ ...draft, text: e.target.value || null })}
+                rows={4}
+                className={inputCls + " font-mono text-sm"}
+                placeholder="Empty = generated from the HTML body"
+              />
+            </div>
+          </>
+        ) : null}
+
+        {Object.keys(placeholders).length ? (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {Object.entries(placeholders).map(([name, help]) => (
+              <code key={name} title={help} className="rounded-lg bg-slate-100 px-2 py-1 text-slate-700">
+                {`{{${name}}}`}
+              </code>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() =>
+              draft &&
+              run(async () => {
+                await saveEmailTemplate(draft);
+                await reload();
+                setNotice("Template saved.");
+              })
+            }
+            disabled={!draft}
+            className="rounded-xl bg-brand-700 px-5 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40"
+          >
+            Save Template
+          </button>
+          <button
+            onClick={() => {
+              if (!window.confirm(`Delete the ${language} / ${severity} template and use the fallback?`)) return;
+              run(async () => {
+                await deleteEmailTemplate(language, severity);
+                await reload();
+              });
+            }}
+            disabled={!current}
+            className="rounded-xl bg-red-50 border border-red-200 px-5 py-3 font-extrabold text-red-700 hover:bg-red-100 disabled:opacity-40"
+          >
+            Reset to Default
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Sample device</label>
+            <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)} className={inputCls}>
+              <option value="">Demo station</option>
+              {devices.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name} ({d.id})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Send test to</label>
+            <input value={testTo} onChange={(e) => setTestTo(e.target.value)} className={inputCls} placeholder="you@example.com" />
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => draft && run(async () => setPreview(await previewEmailTemplate(draft, deviceId || undefined)))}
+              disabled={!draft}
+              className="rounded-xl bg-brand-50 border border-brand-200 px-5 py-3 font-extrabold text-brand-700 hover:bg-brand-100 disabled:opacity-40"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() =>
+                draft &&
+                run(async () => {
+                  const r = await sendTestEmailTemplate(draft, testTo.trim(), deviceId || undefined);
+                  setNotice(`Test email sent to ${r.to}.`);
+                })
+              }
+              disabled={!draft || !testTo.trim()}
+              className="rounded-xl bg-brand-50 border border-brand-200 px-5 py-3 font-extrabold text-brand-700 hover:bg-brand-100 disabled:opacity-40"
+            >
+              Send Test
+            </button>
+          </div>
+        </div>
+
+        {notice ? (
+          <div className="rounded-xl bg-emerald-50 border border-emerald-200 p-3 text-sm text-emerald-900">{notice}</div>
+        ) : null}
+        {error ? <div className="rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div> : null}
+
+        {preview ? (
+          <div>
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-semibold text-slate-600">
+                Subject: <span className="text-slate-800">{preview.subject}</span>
+              </div>
+              <button onClick={() => setPreview(null)} className="text-sm font-semibold text-brand-700 hover:underline">
+                Close
+              </button>
+            </div>
+            <iframe title="Email preview" srcDoc={preview.html} className="mt-2 h-80 w-full rounded-xl border border-slate-200" />
+            <pre className="mt-2 whitespace-pre-wrap rounded-xl bg-slate-50 border border-slate-200 p-3 text-xs text-slate-700">
+              {preview.text}
+            </pre>
+          </div>
+        ) : null}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import Card from "../ui/Card";
+import {
+  NotificationDiagnostics,
+  SmtpStage,
+  fetchNotificationDiagnostics,
+  sendSmtpTestEmail
+} from "../../services/backend";
+
+const TLS_LABEL = { smtps: "SMTPS (implicit TLS)", starttls: "STARTTLS", none: "None" };
+
+export default function NotificationDiagnosticsCard() {
+  const [diag, setDiag] = useState<NotificationDiagnostics | null>(null);
+  const [to, setTo] = useState("");
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; error: string | null; stages: SmtpStage[] } | null>(null);
+  const [error, setError] = useState("");
+
+  const reload = () =>
+    fetchNotificationDiagnostics()
+      .then(setDiag)
+      .catch(() => setError("Failed to load diagnostics (check backend / DB)."));
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const onTest = async () => {
+    setError("");
+    setResult(null);
+    setSending(true);
+    try {
+      setResult(await sendSmtpTestEmail(to.trim()));
+      await reload();
+    } catch (e: any) {
+      setError(e?.response?.data?.error || "Request failed (check backend / DB).");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const smtp = diag?.smtp;
+  const outbox = diag?.email_outbox;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-lg font-extrabold text-brand-800">Email Diagnostics</div>
+        <button onClick={reload} className="text-sm font-semibold text-brand-700 hover:underline">
+          Refresh
+        </button>
+      </div>
+      <div className="mt-2 text-sm text-slate-600">
+        SMTP settings come from the backend environment. Send a test email to see where delivery fails.
+      </div>
+
+      {smtp ? (
+        <div className="mt-5 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          <div>
+            <b>Status:</b>{" "}
+            {smtp.configured ? (
+              <span className="font-semibold text-emerald-700">configured</span>
+            ) : (
+              <span className="font-semibold text-red-700">not configured (missing {smtp.missing.join(", ")})</span>
+            )}
+          </div>
+          <div>
+            <b>Server:</b> {smtp.host || "—"}:{smtp.port ?? "—"}
+          </div>
+          <div>
+            <b>TLS:</b> {TLS_LABEL[smtp.tls_mode]}
+          </div>
+          <div>
+            <b>User:</b> {smtp.user || "—"} {smtp.password_set ? "(password set)" : "(no password)"}
+          </div>
+          <div>
+            <b>From:</b> {smtp.from || "—"}
+          </div>
+          {outbox ? (
+            <div>
+              <b>Outbox:</b> {outbox.pending} pending · {outbox.retrying} retrying · {outbox.failed} failed ·{" "}
+              {outbox.sent_24h} sent in 24 h
+            </div>
+          ) : null}
+          {diag?.webhooks ? (
+            <div>
+              <b>Webhooks:</b> {diag.webhooks.pending} pending · {diag.webhooks.failed} failed · {diag.webhooks.delivered_24h}{" "}
+              delivered in 24 h
+            </div>
+          ) : null}
+          {outbox?.last_failure ? (
+            <div className="sm:col-span-2 text-slate-600">
+              <b>Last email error</b> ({new Date(outbox.last_failure.created_at).toLocaleString()}, to{" "}
+              {outbox.last_failure.to_addr}): {outbox.last_failure.last_error}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="mt-5 flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="flex-1">
+          <label className="text-sm font-semibold text-slate-600">Send test email to</label>
+          <input
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+            placeholder="you@example.com"
+          />
+        </div>
+        <button
+          onClick={onTest}
+          disabled={!to.trim() || sending}
+          className="rounded-xl bg-brand-700 px-5 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40"
+        >
+          {sending ? "Sending..." : "Send Test Email"}
+        </button>
+      </div>
+
+      {error ? <div className="mt-4 rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div> : null}
+
+      {result ? (
+        <div className="mt-4">
+          <div className={"text-sm font-extrabold " + (result.ok ? "text-emerald-700" : "text-red-700")}>
+            {result.ok ? "Test email sent." : `Failed: ${result.error}`}
+          </div>
+          <table className="mt-2 w-full text-sm">
+            <tbody>
+              {result.stages.map((s, i) => (
+                <tr key={i} className="border-b last:border-0">
+                  <td className="py-2 pr-4 w-6">{s.ok ? "✅" : "❌"}</td>
+                  <td className="py-2 pr-4 font-semibold text-brand-800 whitespace-nowrap">{s.stage}</td>
+                  <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">{s.ms} ms</td>
+                  <td className="py-2 pr-0 text-slate-700 break-all">{s.detail}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import Card from "../ui/Card";
+import { Device } from "../../types/device";
+import {
+  Webhook,
+  WebhookDelivery,
+  createWebhook,
+  deleteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  retryWebhookDelivery,
+  testWebhook,
+  updateWebhook
+} from "../../services/backend";
+
+function formatTime(s: string | null) {
+  return s ? new Date(s).toLocaleString() : "—";
+}
+
+function deliveryBadge(d: WebhookDelivery) {
+  if (d.status === "delivered") return <span className="font-semibold text-emerald-700">delivered</span>;
+  if (d.status === "failed") return <span className="font-semibold text-red-700">failed</span>;
+  return <span className="font-semibold text-amber-700">{d.attempts ? `retrying (${d.attempts})` : "pending"}</span>;
+}
+
+export default function WebhooksCard({ devices }: { devices: Device[] }) {
+  const [hooks, setHooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [deviceId, setDeviceId] = useState("");
+  const [description, setDescription] = useState("");
+  // Signing secret from the last create / rotation (shown once)
+  const [issued, setIssued] = useState<Webhook | null>(null);
+  const [logFor, setLogFor] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState("");
+
+  const reload = () =>
+    fetchWebhooks()
+      .then(setHooks)
+      .catch(() => setError("Failed to load webhooks (check backend / DB)."));
+
+  const reloadLog = (id: number) =>
+    fetchWebhookDeliveries(id)
+      .then(setDeliveries)
+      .catch(() => setError("Failed to load delivery log."));
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  useEffect(() => {
+    setDeliveries([]);
+    if (logFor !== null) reloadLog(logFor);
+  }, [logFor]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError("");
+    try {
+      await action();
+      await reload();
+      if (logFor !== null) await reloadLog(logFor);
+      return true;
+    } catch (e: any) {
+      setError(e?.response?.data?.error || "Request failed (check backend / DB).");
+      return false;
+    }
+  };
+
+  const onAdd = async () => {
+    const ok = await run(async () => {
+      const w = await createWebhook({ url: url.trim(), device_id: deviceId || null, description: description.trim() });
+      setIssued(w);
+    });
+    if (ok) {
+      setUrl("");
+      setDescription("");
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="text-lg font-extrabold text-brand-800">Webhooks</div>
+      <div className="mt-2 text-sm text-slate-600">
+        Every new alert is POSTed as JSON to matching webhooks (chat bots, ticketing…). Requests are signed with
+        <code> X-Webhook-Signature</code> (HMAC-SHA256 of <code>timestamp.body</code>); failed deliveries are retried with backoff.
+      </div>
+
+      <div className="mt-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="text-sm font-semibold text-slate-600">URL</label>
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+              placeholder="https://hooks.example.com/water-alerts"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Device</label>
+            <select
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+            >
+              <option value="">All devices</option>
+              {devices.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name} ({d.id})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Description (optional)</label>
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+              placeholder="vd: ops chat"
+            />
+          </div>
+        </div>
+        <button
+          onClick={onAdd}
+          disabled={!url.trim()}
+          className="rounded-xl bg-brand-700 px-5 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40"
+        >
+          Add Webhook
+        </button>
+
+        {issued?.secret ? (
+          <div className="rounded-xl bg-emerald-50 border border-emerald-200 p-3 text-sm text-emerald-900">
+            Signing secret for <b>{issued.url}</b>: <code className="break-all font-bold">{issued.secret}</code>
+          </div>
+        ) : null}
+
+        {error ? <div className="rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div> : null}
+
+        {hooks.length === 0 ? (
+          <div className="text-sm text-slate-500">No webhooks configured.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b">
+                  <th className="py-2 pr-4">URL</th>
+                  <th className="py-2 pr-4">Device</th>
+                  <th className="py-2 pr-4">Description</th>
+                  <th className="py-2 pr-4">Enabled</th>
+                  <th className="py-2 pr-0"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {hooks.map((w) => (
+                  <tr key={w.id} className="border-b last:border-0">
+                    <td className="py-3 pr-4 break-all">{w.url}</td>
+                    <td className="py-3 pr-4">{w.device_id || "All"}</td>
+                    <td className="py-3 pr-4">{w.description || "—"}</td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={w.enabled}
+                        onChange={(e) => run(() => updateWebhook({ ...w, enabled: e.target.checked }))}
+                        className="h-4 w-4"
+                      />
+                    </td>
+                    <td className="py-3 pr-0 whitespace-nowrap">
+                      <button
+                        onClick={() => run(() => testWebhook(w.id)).then(() => setLogFor(w.id))}
+                        className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                      >
+                        Test
+                      </button>
+                      <button
+                        onClick={() => setLogFor(logFor === w.id ? null : w.id)}
+                        className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                      >
+                        Log
+                      </button>
+                      <button
+                        onClick={() => run(async () => setIssued(await updateWebhook(w, true)))}
+                        className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                      >
+                        New Secret
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (!window.confirm(`Delete webhook ${w.url} and its delivery log?`)) return;
+                          if (logFor === w.id) setLogFor(null);
+                          run(() => deleteWebhook(w.id));
+                        }}
+                        className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 font-semibold text-red-700 hover:bg-red-100"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {logFor !== null ? (
+          <div>
+            <div className="flex items-center gap-3">
+              <div className="text-sm font-semibold text-slate-600">Delivery log (latest 20)</div>
+              <button onClick={() => reloadLog(logFor)} className="text-sm font-semibold text-brand-700 hover:underline">
+                Refresh
+              </button>
+            </div>
+            {deliveries.length === 0 ? (
+              <div className="mt-2 text-sm text-slate-500">No deliveries yet.</div>
+            ) : (
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-600 border-b">
+                      <th className="py-2 pr-4">Time</th>
+                      <th className="py-2 pr-4">Event</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2 pr-4">Attempts</th>
+                      <th className="py-2 pr-4">Last error</th>
+                      <th className="py-2 pr-0"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map((d) => (
+                      <tr key={d.id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatTime(d.created_at)}</td>
+                        <td className="py-2 pr-4">
+                          {d.event}
+                          {d.alert_id ? ` #${d.alert_id}` : ""}
+                        </td>
+                        <td className="py-2 pr-4">{deliveryBadge(d)}</td>
+                        <td className="py-2 pr-4">{d.attempts}</td>
+                        <td className="py-2 pr-4 text-slate-600">{d.last_error || "—"}</td>
+                        <td className="py-2 pr-0">
+                          {d.status !== "pending" && (
+                            <button
+                              onClick={() => run(() => retryWebhookDelivery(logFor, d.id))}
+                              className="rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </Card>
+  );
+}
@@ -5,10 +5,15 @@ import {
   XAxis,
   YAxis,
   Tooltip,
-  CartesianGrid
+  CartesianGrid,
+  ReferenceArea
 } from "recharts";
 import Card from "../ui/Card";
-import { LatestReading } from "../../types/device";
+import { MaintenanceWindow } from "../../services/backend";
+import { MetricDef } from "../../types/device";
+
+// Raw readings, or bucket averages (null when the bucket has no value for the metric)
+export type ChartPoint = { createdAt: string; values: Record<string, number | null> };
 
 function formatTime(s: string) {
   try {
@@ -19,17 +24,44 @@ function formatTime(s: string) {
   }
 }
 
+function formatDate(s: string) {
+  try {
+    const d = new Date(s);
+    return d.toLocaleDateString([], { month: "short", day: "numeric" });
+  } catch {
+    return s;
+  }
+}
+
+type Shade = { x1: string; x2: string; label: string };
+
+// The x axis is categorical (reading times): shade from the first to the last reading inside each window
+function maintenanceShades(data: ChartPoint[], windows: MaintenanceWindow[]): Shade[] {
+  return windows.flatMap((w) => {
+    const start = new Date(w.starts_at).getTime();
+    const end = new Date(w.ends_at).getTime();
+    const inside = data.filter((d) => {
+      const t = new Date(d.createdAt).getTime();
+      return t >= start && t < end;
+    });
+    if (!inside.length) return [];
+    return [{ x1: inside[0].createdAt, x2: inside[inside.length - 1].createdAt, label: w.reason || "Maintenance" }];
+  });
+}
+
 function Chart({
-  title,
-  dataKey,
-  unit,
-  data
+  metric,
+  data,
+  shades,
+  dates
 }: {
-  title: string;
-  dataKey: keyof LatestReading;
-  unit: string;
-  data: LatestReading[];
+  metric: MetricDef;
+  data: ChartPoint[];
+  shades: Shade[];
+  dates: boolean;
 }) {
+  const format = dates ? formatDate : formatTime;
+  const { name: title, unit } = metric;
   return (
     <Card className="p-5">
       <div className="font-extrabold text-brand-800">{title}</div>
@@ -37,13 +69,31 @@ function Chart({
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={data}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="createdAt" tickFormatter={formatTime} />
+            <XAxis dataKey="createdAt" tickFormatter={format} />
             <YAxis unit={unit} />
             <Tooltip
-              labelFormatter={(v) => formatTime(String(v))}
-              formatter={(v) => [`${v} ${unit}`, title]}
+              labelFormatter={(v) => (dates ? new Date(String(v)).toLocaleString() : formatTime(String(v)))}
+              formatter={(v) => [v === null || v === undefined ? "—" : `${v} ${unit}`, title]}
+            />
+            {shades.map((m, i) => (
+              <ReferenceArea
+                key={i}
+                x1={m.x1}
+                x2={m.x2}
+                fill="#94a3b8"
+                fillOpacity={0.2}
+                label={{ value: `🔧 ${m.label}`, position: "insideTop", fontSize: 11 }}
+              />
+            ))}
+            {/* Missing values (null) are drawn as gaps, not joined */}
+            <Line
+              type="monotone"
+              dataKey={(p: ChartPoint) => p.values[metric.key] ?? null}
+              name={title}
+              strokeWidth={3}
+              dot={false}
+              connectNulls={false}
             />
-            <Line type="monotone" dataKey={dataKey} strokeWidth={3} dot={false} />
           </LineChart>
         </ResponsiveContainer>
       </div>
@@ -51,13 +101,23 @@ function Chart({
   );
 }
 
-export default function DeviceCharts({ data }: { data: LatestReading[] }) {
+export default function DeviceCharts({
+  data,
+  metrics,
+  maintenance = [],
+  dates = false
+}: {
+  data: ChartPoint[];
+  metrics: MetricDef[]; // one chart each
+  maintenance?: MaintenanceWindow[]; // muted periods, shaded
+  dates?: boolean; // multi-day range: label the axis with dates
+}) {
+  const shades = maintenanceShades(data, maintenance);
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-5 mt-6">
-      <Chart title="Salinity" dataKey="salinity" unit="ppt" data={data} />
-      <Chart title="pH Level" dataKey="ph" unit="" data={data} />
-      <Chart title="Temperature" dataKey="temperature" unit="°C" data={data} />
-      <Chart title="Battery" dataKey="battery" unit="%" data={data} />
+      {metrics.map((m) => (
+        <Chart key={m.key} metric={m} data={data} shades={shades} dates={dates} />
+      ))}
     </div>
   );
 }
@@ -1,10 +1,13 @@
 import Card from "../ui/Card";
-import { LatestReading } from "../../types/device";
+import { LatestReading, MetricDef } from "../../types/device";
+import { formatMetric } from "../../utils/reading";
 
 export default function DeviceReadingsTable({
-  data
+  data,
+  metrics
 }: {
   data: LatestReading[];
+  metrics: MetricDef[]; // one column each
 }) {
   const rows = [...data].reverse().slice(0, 20);
 
@@ -22,10 +25,12 @@ export default function DeviceReadingsTable({
           <thead className="bg-slate-50 text-slate-600">
             <tr>
               <th className="text-left font-bold px-5 py-3">Time</th>
-              <th className="text-left font-bold px-5 py-3">Salinity (ppt)</th>
-              <th className="text-left font-bold px-5 py-3">pH</th>
-              <th className="text-left font-bold px-5 py-3">Temp (°C)</th>
-              <th className="text-left font-bold px-5 py-3">Battery (%)</th>
+              {metrics.map((m) => (
+                <th key={m.key} className="text-left font-bold px-5 py-3">
+                  {m.name}
+                  {m.unit ? ` (${m.unit})` : ""}
+                </th>
+              ))}
             </tr>
           </thead>
 
@@ -33,10 +38,11 @@ export default function DeviceReadingsTable({
             {rows.map((r, idx) => (
               <tr key={r.createdAt + idx} className="border-t hover:bg-slate-50/60">
                 <td className="px-5 py-4">{new Date(r.createdAt).toLocaleString()}</td>
-                <td className="px-5 py-4">{r.salinity.toFixed(1)}</td>
-                <td className="px-5 py-4">{r.ph.toFixed(1)}</td>
-                <td className="px-5 py-4">{r.temperature.toFixed(1)}</td>
-                <td className="px-5 py-4">{Math.round(r.battery)}</td>
+                {metrics.map((m) => (
+                  <td key={m.key} className="px-5 py-4">
+                    {formatMetric(r.values[m.key], m.precision) ?? "—"}
+                  </td>
+                ))}
               </tr>
             ))}
           </tbody>
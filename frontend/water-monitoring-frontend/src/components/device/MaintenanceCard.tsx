@@ -0,0 +1,183 @@
+import { useState } from "react";
+import Card from "../ui/Card";
+import {
+  MaintenanceWindow,
+  createMaintenanceWindow,
+  deleteMaintenanceWindow,
+  updateMaintenanceWindow
+} from "../../services/backend";
+
+const inputCls =
+  "mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400";
+
+function windowState(w: MaintenanceWindow) {
+  const now = Date.now();
+  if (new Date(w.ends_at).getTime() <= now) return "ended";
+  return new Date(w.starts_at).getTime() <= now ? "active" : "scheduled";
+}
+
+export default function MaintenanceCard({
+  deviceId,
+  windows,
+  isAdmin,
+  onChanged
+}: {
+  deviceId: string;
+  windows: MaintenanceWindow[];
+  isAdmin: boolean;
+  onChanged: () => void;
+}) {
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [reason, setReason] = useState("");
+  const [types, setTypes] = useState("");
+  const [error, setError] = useState("");
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError("");
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (e: any) {
+      setError(e?.response?.data?.error || "Request failed (check backend / DB).");
+      return false;
+    }
+  };
+
+  const onSchedule = async () => {
+    const alertTypes = types
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const ok = await run(() =>
+      createMaintenanceWindow(deviceId, {
+        // datetime-local values are local time
+        starts_at: start ? new Date(start).toISOString() : undefined,
+        ends_at: end ? new Date(end).toISOString() : undefined,
+        reason: reason.trim(),
+        alert_types: alertTypes.length ? alertTypes : null
+      })
+    );
+    if (ok) {
+      setStart("");
+      setEnd("");
+      setReason("");
+      setTypes("");
+    }
+  };
+
+  const rows = [...windows].reverse();
+
+  return (
+    <Card className="p-6">
+      <div className="font-extrabold text-brand-800">Maintenance Windows</div>
+      <div className="mt-1 text-xs text-slate-500">
+        Alerts are muted during maintenance (readings are still recorded). Shaded on the charts above.
+      </div>
+
+      {isAdmin ? (
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Start (empty = now)</label>
+            <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">End</label>
+            <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Reason</label>
+            <input value={reason} onChange={(e) => setReason(e.target.value)} className={inputCls} placeholder="Probe recalibration" />
+          </div>
+          <div>
+            <label className="text-sm font-semibold text-slate-600">Alert types (optional)</label>
+            <input
+              value={types}
+              onChange={(e) => setTypes(e.target.value)}
+              className={inputCls}
+              placeholder="Empty = all, e.g. salinity_high, ph_low"
+            />
+          </div>
+          <button
+            onClick={onSchedule}
+            disabled={!end}
+            className="rounded-xl bg-brand-700 px-5 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40"
+          >
+            Schedule
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <div className="mt-3 rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">{error}</div> : null}
+
+      {rows.length === 0 ? (
+        <div className="mt-3 text-sm text-slate-500">No maintenance in the charted period or scheduled.</div>
+      ) : (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 border-b">
+                <th className="py-2 pr-4">Start</th>
+                <th className="py-2 pr-4">End</th>
+                <th className="py-2 pr-4">Reason</th>
+                <th className="py-2 pr-4">Alert types</th>
+                <th className="py-2 pr-4">State</th>
+                {isAdmin && <th className="py-2 pl-4"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((w) => {
+                const state = windowState(w);
+                return (
+                  <tr key={w.id} className="border-b last:border-0">
+                    <td className="py-3 pr-4 whitespace-nowrap">{new Date(w.starts_at).toLocaleString()}</td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{new Date(w.ends_at).toLocaleString()}</td>
+                    <td className="py-3 pr-4">
+                      {w.reason || "—"}
+                      {w.created_by ? <span className="text-xs text-slate-500"> · {w.created_by}</span> : null}
+                    </td>
+                    <td className="py-3 pr-4">{w.alert_types?.join(", ") || "All"}</td>
+                    <td className="py-3 pr-4">
+                      <span
+                        className={
+                          "text-xs font-extrabold " +
+                          (state === "active" ? "text-amber-700" : state === "scheduled" ? "text-brand-700" : "text-slate-500")
+                        }
+                      >
+                        {state}
+                      </span>
+                    </td>
+                    {isAdmin && (
+                      <td className="py-3 pl-4 whitespace-nowrap text-right">
+                        {state === "active" && (
+                          <button
+                            onClick={() => run(() => updateMaintenanceWindow({ ...w, ends_at: new Date().toISOString() }))}
+                            className="mr-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-1.5 text-xs font-semibold text-amber-900 hover:bg-amber-100"
+                          >
+                            End Now
+                          </button>
+                        )}
+                        {state !== "ended" && (
+                          <button
+                            onClick={() => {
+                              if (!window.confirm("Delete this maintenance window?")) return;
+                              run(() => deleteMaintenanceWindow(w));
+                            }}
+                            className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 text-xs font-semibold text-red-700 hover:bg-red-100"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 import { MapContainer, TileLayer, Marker, Popup } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { Device, DeviceComputed, DeviceStatus } from "../../types/device";
+import { Device, DeviceComputed, DeviceStatus, MetricDef } from "../../types/device";
+import { formatWithUnit } from "../../utils/reading";
 import { statusColor } from "../../utils/status";
 
 /**
@@ -41,10 +42,12 @@ const pinIconByStatus = (status: DeviceStatus) => {
 export default function VietnamMap({
   devices,
   computed,
+  metrics,
   onSelect
 }: {
   devices: Device[];
   computed: Record<string, DeviceComputed | null>;
+  metrics: MetricDef[]; // shown in the popup when the device reports them
   onSelect: (deviceId: string) => void;
 }) {
   return (
@@ -84,21 +87,13 @@ export default function VietnamMap({
                   </div>
 
                   <div className="px-4 pb-4 text-sm leading-6 text-slate-700">
-                    <div>
-                      <span className="font-bold">Salinity:</span>{" "}
-                      {c?.latest.salinity ?? "-"} ppt
-                    </div>
-                    <div>
-                      <span className="font-bold">pH:</span> {c?.latest.ph ?? "-"}
-                    </div>
-                    <div>
-                      <span className="font-bold">Temperature:</span>{" "}
-                      {c?.latest.temperature ?? "-"}°C
-                    </div>
-                    <div>
-                      <span className="font-bold">Battery:</span>{" "}
-                      {c?.latest.battery ?? "-"}%
-                    </div>
+                    {metrics
+                      .filter((m) => c?.latest && m.key in c.latest.values)
+                      .map((m) => (
+                        <div key={m.key}>
+                          <span className="font-bold">{m.name}:</span> {formatWithUnit(c?.latest?.values[m.key], m)}
+                        </div>
+                      ))}
 
                     <div className="mt-2 text-xs text-slate-500">
                       Status: <b>{status.replace("_", " ")}</b>
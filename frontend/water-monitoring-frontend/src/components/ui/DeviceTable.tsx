@@ -1,6 +1,7 @@
 import { Link } from "react-router-dom";
 import Card from "./Card";
-import { Device, DeviceComputed, DeviceStatus } from "../../types/device";
+import { Device, DeviceComputed, DeviceStatus, MetricDef } from "../../types/device";
+import { formatWithUnit } from "../../utils/reading";
 
 function badge(status: DeviceStatus) {
   const cls =
@@ -26,10 +27,12 @@ function badge(status: DeviceStatus) {
 
 export default function DeviceTable({
   devices,
-  computed
+  computed,
+  metrics
 }: {
   devices: Device[];
   computed: Record<string, DeviceComputed | null>;
+  metrics: MetricDef[]; // one column each
 }) {
   return (
     <Card className="p-0 overflow-hidden">
@@ -45,10 +48,11 @@ export default function DeviceTable({
               <th className="text-left font-bold px-5 py-3">Name</th>
               <th className="text-left font-bold px-5 py-3">Location</th>
               <th className="text-left font-bold px-5 py-3">Status</th>
-              <th className="text-left font-bold px-5 py-3">Salinity</th>
-              <th className="text-left font-bold px-5 py-3">pH</th>
-              <th className="text-left font-bold px-5 py-3">T(°C)</th>
-              <th className="text-left font-bold px-5 py-3">Battery</th>
+              {metrics.map((m) => (
+                <th key={m.key} className="text-left font-bold px-5 py-3">
+                  {m.name}
+                </th>
+              ))}
               <th className="text-left font-bold px-5 py-3">Last seen</th>
               <th className="text-left font-bold px-5 py-3"></th>
             </tr>
@@ -65,10 +69,11 @@ export default function DeviceTable({
                   <td className="px-5 py-4 font-extrabold text-slate-800">{d.name}</td>
                   <td className="px-5 py-4 text-slate-600">{d.locationLabel}</td>
                   <td className="px-5 py-4">{badge(status)}</td>
-                  <td className="px-5 py-4">{latest ? `${latest.salinity.toFixed(1)} ppt` : "—"}</td>
-                  <td className="px-5 py-4">{latest ? latest.ph.toFixed(1) : "—"}</td>
-                  <td className="px-5 py-4">{latest ? latest.temperature.toFixed(1) : "—"}</td>
-                  <td className="px-5 py-4">{latest ? `${Math.round(latest.battery)}%` : "—"}</td>
+                  {metrics.map((m) => (
+                    <td key={m.key} className="px-5 py-4">
+                      {formatWithUnit(latest?.values[m.key], m)}
+                    </td>
+                  ))}
                   <td className="px-5 py-4">{latest ? new Date(latest.createdAt).toLocaleString() : "—"}</td>
                   <td className="px-5 py-4 text-right">
                     <Link to={`/device/${d.id}`} className="font-extrabold text-brand-700 hover:text-brand-800">
@@ -8,7 +8,7 @@ export default function MetricCard({
 }: {
   icon: string;
   label: string;
-  value: string;
+  value: string | null; // null = not reported
   unit?: string;
 }) {
   return (
@@ -21,8 +21,8 @@ export default function MetricCard({
       <div className="mx-auto mt-3 h-[2px] w-20 rounded-full bg-brand-200" />
 
       <div className="mt-4 text-center text-3xl font-extrabold text-brand-800">
-        {value}
-        {unit ? <span className="text-xl font-bold"> {unit}</span> : null}
+        {value ?? "—"}
+        {unit && value !== null ? <span className="text-xl font-bold"> {unit}</span> : null}
       </div>
     </Card>
   );
@@ -1,43 +1,63 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { AuthUser, fetchMe, login as apiLogin, onUnauthorized, setAuthToken } from "../services/backend";
 
 type AuthState = {
+  user: AuthUser | null;
   isAdmin: boolean;
+  // false until a stored session has been checked against the backend
+  ready: boolean;
 };
 
 type AuthContextValue = AuthState & {
-  login: (username: string, password: string) => boolean;
+  login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
 };
 
 const AuthContext = createContext<AuthContextValue | null>(null);
 
-// Demo account: admin / admin123
-const DEMO_USER = "admin";
-const DEMO_PASS = "123456";
+const TOKEN_KEY = "authToken";
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const logout = () => {
+    setUser(null);
+    setAuthToken(null);
+    localStorage.removeItem(TOKEN_KEY);
+  };
 
   useEffect(() => {
-    const raw = localStorage.getItem("isAdmin");
-    setIsAdmin(raw === "true");
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (!token) {
+      setReady(true);
+      return;
+    }
+    setAuthToken(token);
+    fetchMe()
+      .then(setUser)
+      .catch(() => logout())
+      .finally(() => setReady(true));
   }, []);
 
-  const login = (username: string, password: string) => {
-    const ok = username === DEMO_USER && password === DEMO_PASS;
-    if (ok) {
-      setIsAdmin(true);
-      localStorage.setItem("isAdmin", "true");
-    }
-    return ok;
-  };
+  useEffect(() => onUnauthorized(logout), []);
 
-  const logout = () => {
-    setIsAdmin(false);
-    localStorage.setItem("isAdmin", "false");
+  const login = async (username: string, password: string) => {
+    try {
+      const { token, user } = await apiLogin(username, password);
+      setAuthToken(token);
+      localStorage.setItem(TOKEN_KEY, token);
+      setUser(user);
+      return true;
+    } catch {
+      return false;
+    }
   };
 
-  const value = useMemo(() => ({ isAdmin, login, logout }), [isAdmin]);
+  const value = useMemo(
+    () => ({ user, isAdmin: user?.role === "admin", ready, login, logout }),
+    [user, ready]
+  );
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
 
@@ -1,42 +1,69 @@
-import { createContext, useContext, useMemo, useState } from "react";
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
 import { demoDevices } from "../data/demoDevices";
 import { Device } from "../types/device";
+import {
+  createDevice as apiCreateDevice,
+  deleteDevice as apiDeleteDevice,
+  fetchDevices,
+  updateDevice as apiUpdateDevice
+} from "../services/backend";
 
 type DevicesContextValue = {
   devices: Device[];
-  addDevice: (d: Device) => void;
-  removeDevice: (id: string) => void;
+  loading: boolean;
+  // true when the backend registry could not be reached and demo devices are shown
+  offline: boolean;
+  addDevice: (d: Device) => Promise<void>;
+  updateDevice: (d: Device) => Promise<void>;
+  removeDevice: (id: string) => Promise<void>;
+  // Refetches the registry (e.g. after alert rules changed the status thresholds)
+  reloadDevices: () => Promise<void>;
 };
 
 const DevicesContext = createContext<DevicesContextValue | null>(null);
 
 export function DevicesProvider({ children }: { children: React.ReactNode }) {
-  const [devices, setDevices] = useState<Device[]>(() => {
-    const raw = localStorage.getItem("devices");
-    if (raw) {
-      try {
-        return JSON.parse(raw) as Device[];
-      } catch {
-        return demoDevices;
-      }
-    }
-    return demoDevices;
-  });
-
-  const persist = (next: Device[]) => {
-    setDevices(next);
-    localStorage.setItem("devices", JSON.stringify(next));
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(false);
+
+  useEffect(() => {
+    fetchDevices()
+      .then((list) => {
+        setDevices(list);
+        setOffline(false);
+      })
+      .catch(() => {
+        // Backend not reachable: fall back to demo stations (read-only)
+        setDevices(demoDevices);
+        setOffline(true);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const addDevice = async (d: Device) => {
+    const saved = await apiCreateDevice(d);
+    setDevices((list) => [...list, saved]);
+  };
+
+  const updateDevice = async (d: Device) => {
+    const saved = await apiUpdateDevice(d);
+    setDevices((list) => list.map((x) => (x.id === saved.id ? saved : x)));
   };
 
-  const addDevice = (d: Device) => {
-    persist([d, ...devices]);
+  const reloadDevices = async () => {
+    setDevices(await fetchDevices());
   };
 
-  const removeDevice = (id: string) => {
-    persist(devices.filter((x) => x.id !== id));
+  const removeDevice = async (id: string) => {
+    await apiDeleteDevice(id);
+    setDevices((list) => list.filter((x) => x.id !== id));
   };
 
-  const value = useMemo(() => ({ devices, addDevice, removeDevice }), [devices]);
+  const value = useMemo(
+    () => ({ devices, loading, offline, addDevice, updateDevice, removeDevice, reloadDevices }),
+    [devices, loading, offline]
+  );
 
   return <DevicesContext.Provider value={value}>{children}</DevicesContext.Provider>;
 }
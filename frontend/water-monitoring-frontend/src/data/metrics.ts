@@ -0,0 +1,32 @@
+import { FieldMapping, MetricDef } from "../types/device";
+
+// Used until (or when) the backend catalog cannot be loaded; same entries as backend/src/metrics.ts
+export const defaultMetrics: MetricDef[] = [
+  { key: "salinity", name: "Salinity", unit: "ppt", precision: 1, min: 0, max: 100 },
+  { key: "ph", name: "pH", unit: "", precision: 1, min: 0, max: 14 },
+  { key: "temperature", name: "Temperature", unit: "°C", precision: 1, min: -10, max: 60 },
+  { key: "battery", name: "Battery", unit: "%", precision: 0, min: 0, max: 100 },
+  { key: "dissolved_oxygen", name: "Dissolved Oxygen", unit: "mg/L", precision: 2, min: 0, max: 50 },
+  { key: "turbidity", name: "Turbidity", unit: "NTU", precision: 1, min: 0, max: 4000 },
+  { key: "water_level", name: "Water Level", unit: "m", precision: 2, min: -50, max: 100 },
+  { key: "ec", name: "Conductivity (EC)", unit: "µS/cm", precision: 0, min: 0, max: 200000 }
+];
+
+export const metricIcons: Record<string, string> = {
+  salinity: "🌊",
+  ph: "⚗️",
+  temperature: "🌡️",
+  battery: "🔋",
+  dissolved_oxygen: "🫧",
+  turbidity: "🌫️",
+  water_level: "📏",
+  ec: "⚡"
+};
+
+// ThingSpeak mapping of devices without one (same default as the backend sync)
+export const DEFAULT_FIELD_MAP: FieldMapping[] = [
+  { field: 1, metric: "salinity", scale: 1, offset: 0 },
+  { field: 2, metric: "ph", scale: 1, offset: 0 },
+  { field: 3, metric: "temperature", scale: 1, offset: 0 },
+  { field: 4, metric: "battery", scale: 1, offset: 0 }
+];
@@ -2,14 +2,23 @@ import { useEffect, useMemo, useState } from "react";
 import { Device, LatestReading } from "../types/device";
 import { fetchLatestReading, fetchRecentReadings } from "../services/thingspeak";
 import { evaluateReading } from "../services/backend";
+import { useMetrics } from "./useMetrics";
+
+const pollInterval =
+  Number(import.meta.env.VITE_POLL_INTERVAL_MS) || 15000;
+
+// The backend alert worker evaluates stored readings on its own;
+// VITE_CLIENT_ALERT_EVAL=true makes the browser also post them (admin sessions only).
+const clientAlertEval = import.meta.env.VITE_CLIENT_ALERT_EVAL === "true";
 
 export function useDeviceData(device: Device | null) {
   const [latest, setLatest] = useState<LatestReading | null>(null);
   const [series, setSeries] = useState<LatestReading[]>([]);
   const [loading, setLoading] = useState(false);
+  const { metrics } = useMetrics();
 
-  const pollInterval =
-    Number(import.meta.env.VITE_POLL_INTERVAL_MS) || 15000;
+  // Refetch when an admin edits the device's field mapping
+  const fieldMapKey = JSON.stringify(device?.fieldMap || []);
 
   useEffect(() => {
     if (!device) return;
@@ -20,22 +29,19 @@ export function useDeviceData(device: Device | null) {
       setLoading(true);
       try {
         const api = device.apiKeyRead || "";
-        const l = await fetchLatestReading(device.channelId, api, 1);
-        const s = await fetchRecentReadings(device.channelId, api, 25);
+        const l = await fetchLatestReading(device.channelId, api, 1, device.fieldMap, metrics);
+        const s = await fetchRecentReadings(device.channelId, api, 25, device.fieldMap, metrics);
 
         if (!alive) return;
         if (l) setLatest(l);
         setSeries(s);
 
-        // Trigger backend alert evaluation (best-effort)
-        if (l) {
+        // Trigger backend alert evaluation (best-effort, optional)
+        if (l && clientAlertEval) {
           evaluateReading({
             device_id: device.id,
             createdAt: l.createdAt,
-            salinity: l.salinity,
-            ph: l.ph,
-            temperature: l.temperature,
-            battery: l.battery
+            ...l.values
           }).catch(() => {
             // Ignore errors (demo-friendly)
           });
@@ -52,7 +58,7 @@ export function useDeviceData(device: Device | null) {
       alive = false;
       clearInterval(t);
     };
-  }, [device?.id]);
+  }, [device?.id, fieldMapKey, metrics]);
 
   const lastUpdated = useMemo(() => latest?.createdAt || null, [latest]);
 
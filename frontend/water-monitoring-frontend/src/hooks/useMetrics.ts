@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { MetricDef } from "../types/device";
+import { defaultMetrics } from "../data/metrics";
+import { fetchMetricCatalog } from "../services/backend";
+
+// The catalog is loaded once and shared by every component
+let catalog: Promise<MetricDef[]> | null = null;
+
+function loadCatalog() {
+  catalog ??= fetchMetricCatalog()
+    .then((list) => (list.length ? list : defaultMetrics))
+    .catch(() => defaultMetrics); // Backend not reachable: built-in catalog
+  return catalog;
+}
+
+/** Metric catalog from the backend (built-in copy until it is loaded, or when it cannot be). */
+export function useMetrics() {
+  const [metrics, setMetrics] = useState<MetricDef[]>(defaultMetrics);
+
+  useEffect(() => {
+    let alive = true;
+    loadCatalog().then((list) => {
+      if (alive) setMetrics(list);
+    });
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return { metrics };
+}
@@ -1,29 +1,51 @@
 import { useEffect, useMemo, useState } from "react";
 import Card from "../components/ui/Card";
 import SectionTitle from "../components/ui/SectionTitle";
+import DeviceKeysCard from "../components/admin/DeviceKeysCard";
+import WebhooksCard from "../components/admin/WebhooksCard";
+import EmailTemplatesCard from "../components/admin/EmailTemplatesCard";
+import NotificationDiagnosticsCard from "../components/admin/NotificationDiagnosticsCard";
+import AlertRulesEditor from "../components/admin/AlertRulesEditor";
 import { useDevices } from "../context/DevicesContext";
 import { Device } from "../types/device";
-import { fetchAlertSettings, saveAlertSettings, AlertSettings } from "../services/backend";
+import { DEFAULT_FIELD_MAP } from "../data/metrics";
+import { useMetrics } from "../hooks/useMetrics";
+import { fetchAlertSettings, saveAlertSettings, previewDigest, AlertSettings, EscalationStep } from "../services/backend";
+
+const FIELDS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+// Field mapping rows as edited (strings until saved)
+type FieldMapRow = { field: string; metric: string; scale: string; offset: string };
 
 export default function AdminPage() {
-  const { devices, addDevice, removeDevice } = useDevices();
+  const { devices, offline, addDevice, updateDevice, removeDevice } = useDevices();
+  const { metrics } = useMetrics();
 
   // --- Alert Settings ---
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>(devices[0]?.id || "");
   const [settings, setSettings] = useState<AlertSettings | null>(null);
   const [settingsStatus, setSettingsStatus] = useState<"idle" | "loading" | "saving" | "saved" | "error">("idle");
+  const [digestPreview, setDigestPreview] = useState("");
+
+  const setEscalationStep = (i: number, patch: Partial<EscalationStep>) =>
+    setSettings((s) =>
+      s ? { ...s, escalation_steps: s.escalation_steps.map((step, j) => (j === i ? { ...step, ...patch } : step)) } : s
+    );
 
-  const [form, setForm] = useState({
+  const emptyForm = {
     id: "",
     name: "",
     locationLabel: "",
     lat: "",
     lng: "",
     channelId: "",
-    apiKeyRead: "",
-    salinityHigh: "10",
-    batteryLow: "20"
-  });
+    apiKeyRead: ""
+  };
+  const [form, setForm] = useState(emptyForm);
+  const [fieldMap, setFieldMap] = useState<FieldMapRow[]>([]);
+  // When set, the device form edits this existing device instead of adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deviceError, setDeviceError] = useState("");
 
   const canSubmit = useMemo(() => {
     return (
@@ -37,8 +59,24 @@ export default function AdminPage() {
 
   const onChange = (k: string, v: string) => setForm((s) => ({ ...s, [k]: v }));
 
+  const setFieldMapRow = (i: number, patch: Partial<FieldMapRow>) =>
+    setFieldMap((rows) => rows.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  const onAddFieldMapRow = () =>
+    setFieldMap((rows) => {
+      // Start from the default mapping, then add the next unmapped metric on a free field
+      if (!rows.length) {
+        return DEFAULT_FIELD_MAP.map((m) => ({ field: String(m.field), metric: m.metric, scale: "1", offset: "0" }));
+      }
+      const metric = metrics.find((m) => !rows.some((r) => r.metric === m.key));
+      const field = FIELDS.find((f) => !rows.some((r) => r.field === String(f)));
+      if (!metric || !field) return rows;
+      return [...rows, { field: String(field), metric: metric.key, scale: "1", offset: "0" }];
+    });
+
   useEffect(() => {
     if (!selectedDeviceId) return;
+    setDigestPreview("");
     setSettingsStatus("loading");
     fetchAlertSettings(selectedDeviceId)
       .then((s) => {
@@ -54,10 +92,60 @@ export default function AdminPage() {
   }, [devices.length]);
 
 
-  const onAdd = (e: React.FormEvent) => {
+  const onEdit = (d: Device) => {
+    setEditingId(d.id);
+    setDeviceError("");
+    setForm({
+      id: d.id,
+      name: d.name,
+      locationLabel: d.locationLabel,
+      lat: String(d.lat),
+      lng: String(d.lng),
+      channelId: String(d.channelId),
+      apiKeyRead: d.apiKeyRead || ""
+    });
+    setFieldMap(
+      (d.fieldMap || []).map((m) => ({
+        field: String(m.field),
+        metric: m.metric,
+        scale: String(m.scale),
+        offset: String(m.offset)
+      }))
+    );
+  };
+
+  const onCancelEdit = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFieldMap([]);
+  };
+
+  const onRemove = async (d: Device) => {
+    if (!window.confirm(`Remove ${d.name}? Its alert settings are deleted; alert history is kept.`)) return;
+    setDeviceError("");
+    try {
+      await removeDevice(d.id);
+      if (selectedDeviceId === d.id) setSelectedDeviceId("");
+    } catch {
+      setDeviceError(`Failed to remove ${d.name} (check backend / DB).`);
+    }
+  };
+
+  const onAdd = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!canSubmit) return;
 
+    const mapping = fieldMap.map((r) => ({
+      field: Number(r.field),
+      metric: r.metric,
+      scale: r.scale.trim() ? Number(r.scale) : 1,
+      offset: r.offset.trim() ? Number(r.offset) : 0
+    }));
+    if (mapping.some((m) => !Number.isFinite(m.scale) || !Number.isFinite(m.offset))) {
+      setDeviceError("Field mapping: scale and offset must be numbers.");
+      return;
+    }
+
     const d: Device = {
       id: form.id.trim(),
       name: form.name.trim(),
@@ -66,42 +154,49 @@ export default function AdminPage() {
       lng: Number(form.lng),
       channelId: Number(form.channelId),
       apiKeyRead: form.apiKeyRead.trim(),
-      thresholds: {
-        salinityHigh: Number(form.salinityHigh),
-        batteryLow: Number(form.batteryLow)
-      }
+      fieldMap: mapping,
+      // Set by the backend from the device's alert rules
+      thresholds: { salinityHigh: null, batteryLow: null }
     };
 
-    addDevice(d);
+    setDeviceError("");
+    try {
+      if (editingId) {
+        await updateDevice(d);
+      } else {
+        await addDevice(d);
+      }
+    } catch (err: any) {
+      setDeviceError(err?.response?.data?.error || "Failed to save device (check backend / DB).");
+      return;
+    }
 
     // Auto-select new device for alert settings
     setSelectedDeviceId(d.id);
 
-    setForm({
-      id: "",
-      name: "",
-      locationLabel: "",
-      lat: "",
-      lng: "",
-      channelId: "",
-      apiKeyRead: "",
-      salinityHigh: "10",
-      batteryLow: "20"
-    });
+    setEditingId(null);
+    setForm(emptyForm);
+    setFieldMap([]);
   };
 
   return (
     <div className="space-y-8">
-      <SectionTitle title="Admin Panel" subtitle="Add / remove monitoring stations (demo storage via LocalStorage)." />
+      <SectionTitle title="Admin Panel" subtitle="Add / edit / remove monitoring stations (stored in the backend)." />
+
+      {offline && (
+        <div className="rounded-xl bg-amber-50 border border-amber-200 p-3 text-sm text-amber-900">
+          Backend device registry is unreachable — showing demo devices. Changes cannot be saved.
+        </div>
+      )}
 
       <Card className="p-6">
-        <div className="text-lg font-extrabold text-brand-800">Add New Device</div>
+        <div className="text-lg font-extrabold text-brand-800">{editingId ? `Edit Device: ${editingId}` : "Add New Device"}</div>
 
         <form onSubmit={onAdd} className="mt-5 grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="text-sm font-semibold text-slate-600">Device ID (unique)</label>
-            <input value={form.id} onChange={(e) => onChange("id", e.target.value)}
-              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+            <input value={form.id} onChange={(e) => onChange("id", e.target.value)} disabled={Boolean(editingId)}
+              className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400 disabled:bg-slate-50"
               placeholder="vd: long-an-station" />
           </div>
 
@@ -148,28 +243,108 @@ export default function AdminPage() {
               placeholder="FTD33..." />
           </div>
 
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <label className="text-sm font-semibold text-slate-600">Salinity High (ppt)</label>
-              <input value={form.salinityHigh} onChange={(e) => onChange("salinityHigh", e.target.value)}
-                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                placeholder="10" />
+          <div className="text-sm text-slate-500 self-end">
+            Status thresholds (high salinity, low battery) follow the device's alert rules below.
+          </div>
+
+          <div className="md:col-span-2">
+            <div className="text-sm font-semibold text-slate-600">ThingSpeak Field Mapping</div>
+            <div className="mt-1 text-xs text-slate-500">
+              {fieldMap.length
+                ? "Each metric is read from its field as value × scale + offset; unmapped metrics are empty."
+                : "Default: field1 salinity, field2 pH, field3 temperature, field4 battery."}
             </div>
-            <div>
-              <label className="text-sm font-semibold text-slate-600">Battery Low (%)</label>
-              <input value={form.batteryLow} onChange={(e) => onChange("batteryLow", e.target.value)}
-                className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                placeholder="20" />
+            {fieldMap.map((r, i) => (
+              <div key={i} className="mt-2 grid grid-cols-2 md:grid-cols-[8rem_1fr_8rem_8rem_auto] gap-3 items-center">
+                <select
+                  value={r.field}
+                  onChange={(e) => setFieldMapRow(i, { field: e.target.value })}
+                  className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                >
+                  {FIELDS.map((f) => (
+                    <option key={f} value={String(f)}>
+                      field{f}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={r.metric}
+                  onChange={(e) => setFieldMapRow(i, { metric: e.target.value })}
+                  className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                >
+                  {metrics.map((m) => (
+                    <option key={m.key} value={m.key}>
+                      {m.name}
+                      {m.unit ? ` (${m.unit})` : ""}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={r.scale}
+                  onChange={(e) => setFieldMapRow(i, { scale: e.target.value })}
+                  className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                  placeholder="Scale"
+                  title="Scale"
+                />
+                <input
+                  value={r.offset}
+                  onChange={(e) => setFieldMapRow(i, { offset: e.target.value })}
+                  className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                  placeholder="Offset"
+                  title="Offset"
+                />
+                <button
+                  type="button"
+                  onClick={() => setFieldMap((rows) => rows.filter((_, j) => j !== i))}
+                  className="rounded-lg bg-red-50 border border-red-200 px-3 py-2 text-sm font-semibold text-red-700 hover:bg-red-100"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="mt-2 flex gap-4">
+              <button
+                type="button"
+                onClick={onAddFieldMapRow}
+                disabled={fieldMap.length >= Math.min(FIELDS.length, metrics.length)}
+                className="text-sm font-semibold text-brand-700 hover:underline disabled:opacity-40"
+              >
+                {fieldMap.length ? "+ Add field" : "Customize mapping"}
+              </button>
+              {fieldMap.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setFieldMap([])}
+                  className="text-sm font-semibold text-slate-600 hover:underline"
+                >
+                  Reset to default
+                </button>
+              )}
             </div>
           </div>
 
-          <div className="md:col-span-2">
+          {deviceError ? (
+            <div className="md:col-span-2 rounded-xl bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+              {deviceError}
+            </div>
+          ) : null}
+
+          <div className="md:col-span-2 flex gap-3">
             <button
-              disabled={!canSubmit}
-              className="w-full rounded-xl bg-brand-700 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40 disabled:cursor-not-allowed"
+              disabled={!canSubmit || offline}
+              className="flex-1 rounded-xl bg-brand-700 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40 disabled:cursor-not-allowed"
             >
-              Add Device
+              {editingId ? "Save Changes" : "Add Device"}
             </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={onCancelEdit}
+                className="rounded-xl border border-slate-200 px-5 py-3 font-extrabold text-slate-700 hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+            )}
           </div>
         </form>
       </Card>
@@ -177,7 +352,7 @@ export default function AdminPage() {
       <Card className="p-6">
         <div className="text-lg font-extrabold text-brand-800">Alert Settings & Email Notifications</div>
         <div className="mt-2 text-sm text-slate-600">
-          Configure threshold-based alerts. When new readings are fetched, the frontend calls the backend to evaluate rules, store alerts, and optionally send emails.
+          Configure alert rules and notifications. The backend evaluates new readings against these rules, stores alerts, and optionally sends emails.
         </div>
 
         {devices.length === 0 ? (
@@ -208,10 +383,24 @@ export default function AdminPage() {
                   className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
                   placeholder="vd: daisy@gmail.com, ops@company.com"
                 />
-                <div className="mt-1 text-xs text-slate-500">Comma-separated emails. (SMTP must be configured in backend env.)</div>
+                <div className="mt-1 text-xs text-slate-500">Comma-separated emails. (SMTP must be configured in backend env — check it with Email Diagnostics below.)</div>
               </div>
 
-              <div className="grid grid-cols-2 gap-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="text-sm font-semibold text-slate-600">Email language</label>
+                  <select
+                    value={settings?.email_language || "en"}
+                    onChange={(e) => setSettings((s) => (s ? { ...s, email_language: e.target.value } : s))}
+                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                  >
+                    {Array.from(new Set(["en", "vi", settings?.email_language || "en"])).map((l) => (
+                      <option key={l} value={l}>
+                        {l}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div>
                   <label className="text-sm font-semibold text-slate-600">Cooldown (minutes)</label>
                   <input
@@ -233,81 +422,111 @@ export default function AdminPage() {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">Salinity high (ppt)</label>
-                  <input
-                    value={String(settings?.salinity_high ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, salinity_high: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">Battery low (%)</label>
-                  <input
-                    value={String(settings?.battery_low ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, battery_low: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder="20"
-                  />
-                </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <label className="text-sm font-semibold text-slate-600">Digest email</label>
+                <select
+                  value={settings?.digest_frequency || "off"}
+                  onChange={(e) =>
+                    setSettings((s) => (s ? { ...s, digest_frequency: e.target.value as AlertSettings["digest_frequency"] } : s))
+                  }
+                  className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                >
+                  <option value="off">Off</option>
+                  <option value="daily">Daily summary</option>
+                  <option value="weekly">Weekly summary</option>
+                </select>
               </div>
+              <div>
+                <label className="text-sm font-semibold text-slate-600">Digest recipients (optional)</label>
+                <input
+                  value={settings?.digest_email_to || ""}
+                  onChange={(e) => setSettings((s) => (s ? { ...s, digest_email_to: e.target.value } : s))}
+                  className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                  placeholder="Empty = alert recipients"
+                />
+              </div>
+              <button
+                onClick={async () => {
+                  try {
+                    const period = settings?.digest_frequency === "weekly" ? "weekly" : "daily";
+                    setDigestPreview((await previewDigest(selectedDeviceId, period)).html);
+                  } catch {
+                    setSettingsStatus("error");
+                  }
+                }}
+                className="rounded-xl border border-slate-200 px-5 py-3 font-extrabold text-slate-700 hover:bg-slate-50"
+              >
+                Preview Digest
+              </button>
+            </div>
 
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">pH low</label>
-                  <input
-                    value={String(settings?.ph_low ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, ph_low: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder="6.5"
-                  />
-                </div>
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">pH high</label>
-                  <input
-                    value={String(settings?.ph_high ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, ph_high: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder="8.5"
-                  />
+            {digestPreview ? (
+              <div>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm font-semibold text-slate-600">Digest preview</div>
+                  <button onClick={() => setDigestPreview("")} className="text-sm font-semibold text-brand-700 hover:underline">
+                    Close
+                  </button>
                 </div>
+                <iframe title="Digest preview" srcDoc={digestPreview} className="mt-2 h-96 w-full rounded-xl border border-slate-200" />
               </div>
-            </div>
+            ) : null}
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
-              <div className="grid grid-cols-2 gap-3 md:col-span-2">
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">Temp low (°C) (optional)</label>
+            <div>
+              <div className="text-sm font-semibold text-slate-600">Escalation (critical alerts not acknowledged)</div>
+              <div className="mt-1 text-xs text-slate-500">
+                Each step emails its list once when a critical alert is still open that many minutes after it fired.
+              </div>
+              {(settings?.escalation_steps || []).map((step, i) => (
+                <div key={i} className="mt-2 grid grid-cols-1 md:grid-cols-[10rem_1fr_auto] gap-3 items-center">
                   <input
-                    value={String(settings?.temperature_low ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, temperature_low: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder=""
+                    value={String(step.after_minutes)}
+                    onChange={(e) => setEscalationStep(i, { after_minutes: Number(e.target.value || 0) })}
+                    className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                    placeholder="Minutes"
+                    title="Minutes after the alert fired"
                   />
-                </div>
-                <div>
-                  <label className="text-sm font-semibold text-slate-600">Temp high (°C) (optional)</label>
                   <input
-                    value={String(settings?.temperature_high ?? "")}
-                    onChange={(e) => setSettings((s) => (s ? { ...s, temperature_high: e.target.value === "" ? null : Number(e.target.value) } : s))}
-                    className="mt-2 w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
-                    placeholder=""
+                    value={step.email_to}
+                    onChange={(e) => setEscalationStep(i, { email_to: e.target.value })}
+                    className="w-full rounded-xl border border-slate-200 px-4 py-3 focus:outline-none focus:ring-2 focus:ring-brand-400"
+                    placeholder={`Level ${i + 1} recipients, e.g. lead@company.com`}
                   />
+                  <button
+                    onClick={() =>
+                      setSettings((s) => (s ? { ...s, escalation_steps: s.escalation_steps.filter((_, j) => j !== i) } : s))
+                    }
+                    className="rounded-lg bg-red-50 border border-red-200 px-3 py-2 text-sm font-semibold text-red-700 hover:bg-red-100"
+                  >
+                    Remove
+                  </button>
                 </div>
-              </div>
+              ))}
+              <button
+                onClick={() =>
+                  setSettings((s) => {
+                    if (!s) return s;
+                    const steps = s.escalation_steps || [];
+                    const last = steps[steps.length - 1]?.after_minutes || 0;
+                    return { ...s, escalation_steps: [...steps, { after_minutes: last + 30, email_to: "" }] };
+                  })
+                }
+                disabled={(settings?.escalation_steps || []).length >= 5}
+                className="mt-2 text-sm font-semibold text-brand-700 hover:underline disabled:opacity-40"
+              >
+                + Add escalation step
+              </button>
+            </div>
 
-              <div className="flex items-center gap-3">
-                <input
-                  type="checkbox"
-                  checked={Boolean(settings?.enabled)}
-                  onChange={(e) => setSettings((s) => (s ? { ...s, enabled: e.target.checked } : s))}
-                  className="h-5 w-5"
-                />
-                <div className="text-sm font-semibold text-slate-700">Enable alerts</div>
-              </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={Boolean(settings?.enabled)}
+                onChange={(e) => setSettings((s) => (s ? { ...s, enabled: e.target.checked } : s))}
+                className="h-5 w-5"
+              />
+              <div className="text-sm font-semibold text-slate-700">Enable alerts</div>
             </div>
 
             <div className="flex flex-wrap items-center gap-3">
@@ -334,6 +553,8 @@ export default function AdminPage() {
               {settingsStatus === "saved" && <div className="text-sm text-green-700 font-semibold">Saved ✓</div>}
               {settingsStatus === "error" && <div className="text-sm text-red-700 font-semibold">Error (check backend / DB)</div>}
             </div>
+
+            <AlertRulesEditor deviceId={selectedDeviceId} />
           </div>
         )}
       </Card>
@@ -359,10 +580,18 @@ export default function AdminPage() {
                   <td className="py-3 pr-4">{d.id}</td>
                   <td className="py-3 pr-4">{d.locationLabel}</td>
                   <td className="py-3 pr-4">{d.channelId}</td>
-                  <td className="py-3 pr-0">
+                  <td className="py-3 pr-0 whitespace-nowrap">
                     <button
-                      onClick={() => removeDevice(d.id)}
-                      className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 font-semibold text-red-700 hover:bg-red-100"
+                      onClick={() => onEdit(d)}
+                      disabled={offline}
+                      className="mr-2 rounded-lg bg-brand-50 border border-brand-200 px-3 py-1.5 font-semibold text-brand-700 hover:bg-brand-100 disabled:opacity-40"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onRemove(d)}
+                      disabled={offline}
+                      className="rounded-lg bg-red-50 border border-red-200 px-3 py-1.5 font-semibold text-red-700 hover:bg-red-100 disabled:opacity-40"
                     >
                       Remove
                     </button>
@@ -374,10 +603,18 @@ export default function AdminPage() {
         </div>
 
         <div className="mt-3 text-xs text-slate-500">
-          Removal only affects LocalStorage (demo). Hook this to backend later.
+          Removing a device also deletes its alert settings. Its alert history stays available.
         </div>
       </Card>
 
+      <DeviceKeysCard devices={devices} />
+
+      <EmailTemplatesCard devices={devices} />
+
+      <NotificationDiagnosticsCard />
+
+      <WebhooksCard devices={devices} />
+
     </div>
   );
 }
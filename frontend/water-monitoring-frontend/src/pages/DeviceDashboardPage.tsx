@@ -1,19 +1,101 @@
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useParams } from "react-router-dom";
 import { useDevices } from "../context/DevicesContext";
 import DeviceTitle from "../components/ui/DeviceTitle";
 import Card from "../components/ui/Card";
 import MetricCard from "../components/ui/MetricCard";
-import DeviceCharts from "../components/charts/DeviceCharts";
+import DeviceCharts, { ChartPoint } from "../components/charts/DeviceCharts";
 import { useDeviceData } from "../hooks/useDeviceData";
 import { computeStatus, statusColor, statusLabel } from "../utils/status";
+import { deviceMetrics, formatMetric, qualityNote } from "../utils/reading";
+import { useMetrics } from "../hooks/useMetrics";
+import { metricIcons } from "../data/metrics";
 import DeviceReadingsTable from "../components/device/DeviceReadingsTable";
-import { fetchAlerts, AlertRow } from "../services/backend";
+import MaintenanceCard from "../components/device/MaintenanceCard";
+import {
+  fetchAlerts,
+  acknowledgeAlert,
+  resolveAlert,
+  AlertRow,
+  MaintenanceWindow,
+  createMaintenanceWindow,
+  fetchMaintenanceWindows,
+  AggregateBucket,
+  MetricStats,
+  fetchReadingsAggregate,
+  readingsExportUrl,
+  alertsExportUrl
+} from "../services/backend";
+import { useAuth } from "../context/AuthContext";
+
+function alertStateBadge(a: AlertRow) {
+  const cls =
+    a.status === "open"
+      ? "bg-red-100 text-red-800"
+      : a.status === "acknowledged"
+      ? "bg-amber-100 text-amber-900"
+      : "bg-emerald-100 text-emerald-800";
+  const who =
+    a.status === "acknowledged"
+      ? `by ${a.acknowledged_by} · ${new Date(a.acknowledged_at || "").toLocaleString()}`
+      : a.status === "resolved"
+      ? `by ${a.resolved_by} · ${new Date(a.resolved_at || "").toLocaleString()}`
+      : "";
+  return (
+    <>
+      <span title={who} className={"inline-flex items-center rounded-lg px-2 py-0.5 text-xs font-extrabold " + cls}>
+        {a.status}
+      </span>
+      {a.escalation_level > 0 ? (
+        <span
+          title={`Escalated to level ${a.escalation_level} · ${new Date(a.escalated_at || "").toLocaleString()}`}
+          className="ml-1 inline-flex items-center rounded-lg bg-purple-100 px-2 py-0.5 text-xs font-extrabold text-purple-800"
+        >
+          escalated L{a.escalation_level}
+        </span>
+      ) : null}
+    </>
+  );
+}
+
+// Chart ranges: "live" is the recent ThingSpeak points, the others are hourly / daily averages from the backend
+const CHART_RANGES: { key: string; label: string; days: number; bucket: AggregateBucket | null }[] = [
+  { key: "live", label: "Live", days: 0, bucket: null },
+  { key: "7d", label: "7 days", days: 7, bucket: "1h" },
+  { key: "30d", label: "30 days", days: 30, bucket: "6h" },
+  { key: "90d", label: "90 days", days: 90, bucket: "1d" }
+];
+
+function emailBadge(a: AlertRow) {
+  const status = a.email_status;
+  if (!status) return "—";
+  const cls =
+    status === "sent"
+      ? "text-emerald-700"
+      : status === "failed"
+      ? "text-red-700"
+      : status === "retrying"
+      ? "text-amber-700"
+      : "text-slate-500";
+  return (
+    <div className="whitespace-nowrap">
+      <span className={"text-xs font-extrabold " + cls}>{status}</span>
+      {a.email_error && status !== "sent" ? (
+        <div title={a.email_error} className="max-w-[14rem] truncate text-xs text-slate-500">
+          {a.email_error}
+        </div>
+      ) : null}
+    </div>
+  );
+}
 
 export default function DeviceDashboardPage() {
   const { deviceId } = useParams();
   const { devices } = useDevices();
+  const { isAdmin } = useAuth();
   const device = useMemo(() => devices.find((d) => d.id === deviceId) || null, [devices, deviceId]);
+  const { metrics: catalog } = useMetrics();
+  const metrics = useMemo(() => deviceMetrics(device, catalog), [device, catalog]);
 
   const { latest, series, loading, lastUpdated } = useDeviceData(device);
 
@@ -26,6 +108,73 @@ export default function DeviceDashboardPage() {
       .catch(() => setAlerts([]));
   }, [device?.id, latest?.createdAt]);
 
+  // Long chart ranges come from /api/readings/aggregate (bucket averages)
+  const [rangeKey, setRangeKey] = useState("live");
+  const range = CHART_RANGES.find((r) => r.key === rangeKey) || CHART_RANGES[0];
+  const rangeFrom = useMemo(
+    () => (range.days ? new Date(Date.now() - range.days * 24 * 3600000).toISOString() : undefined),
+    [range.days]
+  );
+  const [history, setHistory] = useState<ChartPoint[] | null>(null);
+  const [historyError, setHistoryError] = useState("");
+  useEffect(() => {
+    setHistory(null);
+    setHistoryError("");
+    if (!deviceId || !range.bucket || !rangeFrom) return;
+    fetchReadingsAggregate(deviceId, rangeFrom, range.bucket)
+      .then((buckets) =>
+        setHistory(
+          buckets.map((b) => ({
+            createdAt: b.bucket,
+            values: Object.fromEntries(
+              catalog.map((m) => [m.key, (b[m.key] as MetricStats | undefined)?.avg ?? null])
+            )
+          }))
+        )
+      )
+      .catch(() => setHistoryError("Failed to load stored readings (check backend / DB)."));
+  }, [deviceId, range.bucket, rangeFrom, catalog]);
+
+  // Maintenance windows (muted alerts), shaded on the charts
+  const [maintenance, setMaintenance] = useState<MaintenanceWindow[]>([]);
+  const [muteError, setMuteError] = useState("");
+  const reloadMaintenance = useCallback(() => {
+    if (!deviceId) return;
+    fetchMaintenanceWindows(deviceId, rangeFrom)
+      .then(setMaintenance)
+      .catch(() => setMaintenance([]));
+  }, [deviceId, rangeFrom]);
+  useEffect(reloadMaintenance, [reloadMaintenance]);
+
+  // Latest end of the active windows that mute every alert type
+  const now = Date.now();
+  const mutedUntil = maintenance
+    .filter((w) => !w.alert_types?.length && new Date(w.starts_at).getTime() <= now && new Date(w.ends_at).getTime() > now)
+    .map((w) => w.ends_at)
+    .sort()
+    .pop();
+
+  const onMute = async () => {
+    if (!device) return;
+    setMuteError("");
+    try {
+      await createMaintenanceWindow(device.id, { duration_minutes: 120, reason: "Muted from dashboard" });
+      reloadMaintenance();
+    } catch (e: any) {
+      setMuteError(e?.response?.data?.error || "Failed to mute alerts (check backend / DB).");
+    }
+  };
+
+  const onAlertAction = async (kind: "ack" | "resolve", id: number) => {
+    try {
+      const updated = kind === "ack" ? await acknowledgeAlert(id) : await resolveAlert(id);
+      setAlerts((list) => list.map((a) => (a.id === updated.id ? updated : a)));
+    } catch {
+      // Already changed by someone else: refresh the list
+      if (device) fetchAlerts(device.id, 20).then(setAlerts).catch(() => {});
+    }
+  };
+
   if (!device) {
     return (
       <Card className="p-8 text-center">
@@ -34,16 +183,10 @@ export default function DeviceDashboardPage() {
     );
   }
 
-  const latestSafe = latest || {
-    createdAt: new Date().toISOString(),
-    salinity: 15.8,
-    ph: 7.2,
-    temperature: 28.5,
-    battery: 15
-  };
-
-  const status = computeStatus(device, latestSafe);
+  // Nothing loaded yet (or no data): no values are made up, the device shows as offline
+  const status = computeStatus(device, latest);
   const s = statusColor(status);
+  const note = latest ? qualityNote(latest.quality) : null;
 
   return (
     <div className="space-y-6">
@@ -51,18 +194,41 @@ export default function DeviceDashboardPage() {
 
       <div className={"rounded-2xl px-5 py-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 " + s.bar}>
         <div className={"font-extrabold " + s.text}>{statusLabel(status)}</div>
-        <div className={"text-sm " + s.text}>
-          Last updated: <b>{lastUpdated ? new Date(lastUpdated).toLocaleString() : "—"}</b>
+        <div className={"flex flex-wrap items-center gap-3 text-sm " + s.text}>
+          {mutedUntil ? <span className="font-semibold">🔧 Alerts muted until {new Date(mutedUntil).toLocaleString()}</span> : null}
+          <span>
+            Last updated: <b>{lastUpdated ? new Date(lastUpdated).toLocaleString() : "—"}</b>
+          </span>
+          {isAdmin && !mutedUntil && (
+            <button
+              onClick={onMute}
+              className="rounded-lg bg-white/70 border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-white"
+            >
+              Mute 2h
+            </button>
+          )}
+          {muteError && <span className="font-semibold">⚠️ {muteError}</span>}
         </div>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
-        <MetricCard icon="🌊" label="Salinity" value={latestSafe.salinity.toFixed(1)} unit="ppt" />
-        <MetricCard icon="⚗️" label="pH Level" value={latestSafe.ph.toFixed(1)} />
-        <MetricCard icon="🌡️" label="Temperature" value={latestSafe.temperature.toFixed(1)} unit="°C" />
-        <MetricCard icon="🔋" label="Battery" value={String(Math.round(latestSafe.battery))} unit="%" />
+        {metrics.map((m) => (
+          <MetricCard
+            key={m.key}
+            icon={metricIcons[m.key] || "📈"}
+            label={m.name}
+            value={formatMetric(latest?.values[m.key], m.precision)}
+            unit={m.unit || undefined}
+          />
+        ))}
       </div>
 
+      {note ? (
+        <div className="rounded-xl bg-amber-50 border border-amber-200 p-3 text-sm text-amber-900">
+          ⚠️ {note} Missing values are shown as — and left out of the status and alerts.
+        </div>
+      ) : null}
+
       <div className="flex items-center gap-3 text-sm text-slate-600">
         {loading ? (
           <>
@@ -77,15 +243,57 @@ export default function DeviceDashboardPage() {
         )}
       </div>
 
-      <DeviceCharts data={series.length ? series : [latestSafe]} />
+      <div className="flex flex-wrap items-center gap-2">
+        {CHART_RANGES.map((r) => (
+          <button
+            key={r.key}
+            onClick={() => setRangeKey(r.key)}
+            className={
+              "rounded-lg border px-3 py-1.5 text-xs font-semibold " +
+              (r.key === range.key
+                ? "bg-brand-700 border-brand-700 text-white"
+                : "bg-white border-slate-200 text-slate-700 hover:bg-slate-50")
+            }
+          >
+            {r.label}
+          </button>
+        ))}
+        {range.bucket ? (
+          <span className="text-xs text-slate-500">
+            {historyError || (history ? `${range.bucket} averages of stored readings` : "Loading...")}
+          </span>
+        ) : null}
+        <a
+          href={readingsExportUrl(device.id, rangeFrom || new Date(now - 24 * 3600000).toISOString(), range.bucket)}
+          title={range.bucket ? `${range.bucket} min / max / avg of the selected range` : "Stored readings of the last 24 hours"}
+          className="ml-auto rounded-lg bg-white border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+        >
+          Download CSV
+        </a>
+      </div>
+
+      <DeviceCharts
+        data={range.bucket ? history || [] : series.length ? series : latest ? [latest] : []}
+        metrics={metrics}
+        maintenance={maintenance}
+        dates={!!range.bucket}
+      />
 
       {/* NEW: Table of device readings */}
-      <DeviceReadingsTable data={series.length ? series : [latestSafe]} />
+      <DeviceReadingsTable data={series.length ? series : latest ? [latest] : []} metrics={metrics} />
 
       <Card className="p-6">
         <div className="flex items-center justify-between gap-3">
           <div className="font-extrabold text-brand-800">Recent Alerts</div>
-          <div className="text-xs text-slate-500">Stored in backend</div>
+          <div className="flex items-center gap-3 text-xs text-slate-500">
+            Stored in backend
+            <a
+              href={alertsExportUrl(device.id)}
+              className="rounded-lg bg-white border border-slate-200 px-3 py-1.5 font-semibold text-slate-700 hover:bg-slate-50"
+            >
+              Download CSV
+            </a>
+          </div>
         </div>
 
         {alerts.length === 0 ? (
@@ -99,7 +307,9 @@ export default function DeviceDashboardPage() {
                   <th className="py-2 pr-4">Type</th>
                   <th className="py-2 pr-4">Severity</th>
                   <th className="py-2 pr-4">Message</th>
+                  <th className="py-2 pr-4">State</th>
                   <th className="py-2 pr-0">Email</th>
+                  {isAdmin && <th className="py-2 pl-4"></th>}
                 </tr>
               </thead>
               <tbody>
@@ -111,9 +321,28 @@ export default function DeviceDashboardPage() {
                     <td className="py-3 pr-4 font-semibold text-brand-800">{a.type}</td>
                     <td className="py-3 pr-4">{a.severity}</td>
                     <td className="py-3 pr-4">{a.message}</td>
-                    <td className="py-3 pr-0 whitespace-nowrap">
-                      {a.email_to ? (a.email_sent ? "sent" : "pending") : "—"}
-                    </td>
+                    <td className="py-3 pr-4 whitespace-nowrap">{alertStateBadge(a)}</td>
+                    <td className="py-3 pr-0">{emailBadge(a)}</td>
+                    {isAdmin && (
+                      <td className="py-3 pl-4 whitespace-nowrap text-right">
+                        {a.status === "open" && (
+                          <button
+                            onClick={() => onAlertAction("ack", a.id)}
+                            className="mr-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-1.5 text-xs font-semibold text-amber-900 hover:bg-amber-100"
+                          >
+                            Ack
+                          </button>
+                        )}
+                        {a.status !== "resolved" && (
+                          <button
+                            onClick={() => onAlertAction("resolve", a.id)}
+                            className="rounded-lg bg-emerald-50 border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-800 hover:bg-emerald-100"
+                          >
+                            Resolve
+                          </button>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -122,14 +351,16 @@ export default function DeviceDashboardPage() {
         )}
       </Card>
 
+      <MaintenanceCard deviceId={device.id} windows={maintenance} isAdmin={isAdmin} onChanged={reloadMaintenance} />
+
       <Card className="p-6">
         <div className="font-extrabold text-brand-800">Device Info</div>
         <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
           <div><b>Device ID:</b> {device.id}</div>
           <div><b>Location:</b> {device.locationLabel}</div>
           <div><b>Channel ID:</b> {device.channelId}</div>
-          <div><b>Threshold (Salinity High):</b> {device.thresholds.salinityHigh} ppt</div>
-          <div><b>Threshold (Battery Low):</b> {device.thresholds.batteryLow}%</div>
+          <div><b>Threshold (Salinity High):</b> {device.thresholds.salinityHigh != null ? `${device.thresholds.salinityHigh} ppt` : "no rule"}</div>
+          <div><b>Threshold (Battery Low):</b> {device.thresholds.batteryLow != null ? `${device.thresholds.batteryLow}%` : "no rule"}</div>
         </div>
       </Card>
     </div>
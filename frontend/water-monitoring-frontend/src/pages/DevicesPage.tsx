@@ -6,9 +6,12 @@ import { useMemo } from "react";
 import { mergeDeviceComputed } from "../utils/status";
 import { DeviceComputed } from "../types/device";
 import DeviceTable from "../components/ui/DeviceTable";
+import { useMetrics } from "../hooks/useMetrics";
+import { fleetMetrics } from "../utils/reading";
 
 export default function DevicesPage() {
   const { devices } = useDevices();
+  const { metrics } = useMetrics();
 
   // Demo computed values for table display
   const computedAll: Record<string, DeviceComputed | null> = useMemo(() => {
@@ -16,10 +19,13 @@ export default function DevicesPage() {
     for (const d of devices) {
       const fake = {
         createdAt: new Date().toISOString(),
-        salinity: d.id === "can-tho" ? 15.8 : d.id === "ca-mau" ? 6.2 : 3.1,
-        ph: 7.4,
-        temperature: 25.6,
-        battery: d.id === "ca-mau" ? 52 : d.id === "soc-trang" ? 14 : 62
+        values: {
+          salinity: d.id === "can-tho" ? 15.8 : d.id === "ca-mau" ? 6.2 : 3.1,
+          ph: 7.4,
+          temperature: 25.6,
+          battery: d.id === "ca-mau" ? 52 : d.id === "soc-trang" ? 14 : 62
+        },
+        quality: "ok" as const
       };
       out[d.id] = mergeDeviceComputed(d, fake);
     }
@@ -53,14 +59,14 @@ export default function DevicesPage() {
               <div><b>Lat:</b> {d.lat}</div>
               <div><b>Lng:</b> {d.lng}</div>
               <div><b>Channel:</b> {d.channelId}</div>
-              <div><b>Battery low:</b> {d.thresholds.batteryLow}%</div>
+              <div><b>Battery low:</b> {d.thresholds.batteryLow != null ? `${d.thresholds.batteryLow}%` : "no rule"}</div>
             </div>
           </Card>
         ))}
       </div>
 
       {/* NEW: Table above footer like mock */}
-      <DeviceTable devices={devices} computed={computedAll} />
+      <DeviceTable devices={devices} computed={computedAll} metrics={fleetMetrics(devices, metrics)} />
     </div>
   );
 }
@@ -9,12 +9,16 @@ import DeviceTitle from "../components/ui/DeviceTitle";
 import { useDevices } from "../context/DevicesContext";
 import { useDeviceData } from "../hooks/useDeviceData";
 import { mergeDeviceComputed } from "../utils/status";
-import { DeviceComputed } from "../types/device";
+import { DeviceComputed, LatestReading } from "../types/device";
+import { deviceMetrics, fleetMetrics, formatMetric } from "../utils/reading";
+import { useMetrics } from "../hooks/useMetrics";
+import { metricIcons } from "../data/metrics";
 import StatsSummaryCards from "../components/home/StatsSummaryCards";
 import DeviceTable from "../components/ui/DeviceTable";
 
 export default function HomePage() {
   const { devices } = useDevices();
+  const { metrics } = useMetrics();
   const navigate = useNavigate();
 
   const [selectedId, setSelectedId] = useState(devices[0]?.id || "");
@@ -32,25 +36,24 @@ export default function HomePage() {
   const computedAll: Record<string, DeviceComputed | null> = useMemo(() => {
     const out: Record<string, DeviceComputed | null> = {};
     for (const d of devices) {
-      const base = latest || {
-        createdAt: new Date().toISOString(),
-        salinity: 15.8,
-        ph: 7.2,
-        temperature: 28.5,
-        battery: 15
-      };
+      const demo = (salinity: number, battery: number, createdAt = new Date().toISOString()): LatestReading => ({
+        createdAt,
+        values: { salinity, ph: 7.2, temperature: 28.5, battery },
+        quality: "ok"
+      });
 
       // Demo values to create variety across devices
       const fake =
         d.id === "can-tho"
-          ? { ...base, salinity: 15.8, battery: 55 } // high salinity -> red (by threshold)
+          ? demo(15.8, 55) // high salinity -> red (by threshold)
           : d.id === "ca-mau"
-          ? { ...base, salinity: 7.0, battery: 15 } // low battery -> yellow
+          ? demo(7.0, 15) // low battery -> yellow
           : d.id === "ben-tre"
-          ? { ...base, salinity: 6.0, battery: 50, createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString() } // offline (handled later by backend, here still shows)
-          : { ...base, salinity: 3.0, battery: 80 }; // active -> green
+          ? demo(6.0, 50, new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString()) // offline (handled later by backend, here still shows)
+          : demo(3.0, 80); // active -> green
 
-      out[d.id] = mergeDeviceComputed(d, d.id === selectedId ? base : fake);
+      // The selected device shows its real reading (null = nothing loaded, offline)
+      out[d.id] = mergeDeviceComputed(d, d.id === selectedId ? latest : fake);
     }
     return out;
   }, [devices, latest, selectedId]);
@@ -109,6 +112,7 @@ export default function HomePage() {
       <VietnamMap
         devices={devices}
         computed={computedAll}
+        metrics={metrics}
         onSelect={(id) => {
           setSelectedId(id);
           navigate(`/device/${id}`);
@@ -116,14 +120,19 @@ export default function HomePage() {
       />
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
-        <MetricCard icon="🌊" label="Salinity" value={(latestForSelected?.salinity ?? 15.8).toFixed(1)} unit="ppt" />
-        <MetricCard icon="⚗️" label="pH Level" value={(latestForSelected?.ph ?? 7.2).toFixed(1)} />
-        <MetricCard icon="🌡️" label="Temperature" value={(latestForSelected?.temperature ?? 28.5).toFixed(1)} unit="°C" />
-        <MetricCard icon="🔋" label="Battery" value={String(Math.round(latestForSelected?.battery ?? 15))} unit="%" />
+        {deviceMetrics(selected, metrics).map((m) => (
+          <MetricCard
+            key={m.key}
+            icon={metricIcons[m.key] || "📈"}
+            label={m.name}
+            value={formatMetric(latestForSelected?.values[m.key], m.precision)}
+            unit={m.unit || undefined}
+          />
+        ))}
       </div>
 
       {/* NEW: Table above footer like mock */}
-      <DeviceTable devices={devices} computed={computedAll} />
+      <DeviceTable devices={devices} computed={computedAll} metrics={fleetMetrics(devices, metrics)} />
 
       <div className="text-center text-xs text-slate-500">
         Clicking an alert or map pin opens the device dashboard.
@@ -11,12 +11,15 @@ export default function LoginPage() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [submitting, setSubmitting] = useState(false);
 
-  const onSubmit = (e: React.FormEvent) => {
+  const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setSubmitting(true);
 
-    const ok = login(username.trim(), password);
+    const ok = await login(username.trim(), password);
+    setSubmitting(false);
     if (!ok) {
       setError("Invalid credentials. Please try again.");
       return;
@@ -64,8 +67,11 @@ export default function LoginPage() {
             </div>
           ) : null}
 
-          <button className="w-full rounded-xl bg-brand-700 py-3 text-white font-extrabold hover:bg-brand-800">
-            Login
+          <button
+            disabled={submitting}
+            className="w-full rounded-xl bg-brand-700 py-3 text-white font-extrabold hover:bg-brand-800 disabled:opacity-40"
+          >
+            {submitting ? "Signing in…" : "Login"}
           </button>
         </form>
       </Card>
@@ -2,7 +2,9 @@ import { Navigate } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
 
 export default function RequireAdmin({ children }: { children: React.ReactNode }) {
-  const { isAdmin } = useAuth();
+  const { isAdmin, ready } = useAuth();
+  // Wait for the stored session to be verified before redirecting
+  if (!ready) return null;
   if (!isAdmin) return <Navigate to="/login" replace />;
   return <>{children}</>;
 }
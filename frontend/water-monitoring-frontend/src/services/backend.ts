@@ -1,19 +1,41 @@
 import axios from "axios";
+import { Device, FieldMapping, MetricDef } from "../types/device";
 
 export type AlertSettings = {
   device_id: string;
-  salinity_high: number | null;
-  ph_low: number | null;
-  ph_high: number | null;
-  temperature_low: number | null;
-  temperature_high: number | null;
-  battery_low: number | null;
   no_data_minutes: number;
   cooldown_minutes: number;
   email_to: string; // comma-separated emails
   enabled: boolean;
+  digest_frequency: "off" | "daily" | "weekly";
+  digest_email_to: string; // empty = email_to
+  email_language: string; // alert email template language, e.g. en, vi
+  escalation_steps: EscalationStep[];
 };
 
+// Emails `email_to` when a critical alert is still open `after_minutes` after it fired
+export type EscalationStep = { after_minutes: number; email_to: string };
+
+export type AlertRule = {
+  id?: string; // missing while the device still uses the built-in default rules
+  device_id: string;
+  type: string; // e.g. salinity_high, temperature_critical
+  kind: "threshold" | "rate" | "change"; // rate: units per hour, change: units within window_minutes
+  metric: string; // metric catalog key, e.g. salinity
+  operator: ">" | ">=" | "<" | "<=";
+  value: number;
+  clear_value: number | null; // hysteresis: clear only past this value
+  severity: "warning" | "critical";
+  duration_minutes: number; // breach must last N minutes
+  consecutive_readings: number; // breach must last N consecutive readings
+  window_minutes: number; // history window of rate / change rules
+  enabled: boolean;
+};
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+export type EmailStatus = "pending" | "sent" | "retrying" | "failed";
+
 export type AlertRow = {
   id: number;
   device_id: string;
@@ -24,12 +46,208 @@ export type AlertRow = {
   threshold: number | null;
   created_at: string;
   email_sent: boolean;
-  email_to: string | null;
+  email_status: EmailStatus | null; // null when no email was queued
+  email_error: string | null; // last SMTP error while retrying / failed
+  status: AlertStatus;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  escalation_level: number; // last escalation step sent (0 = none)
+  escalated_at: string | null;
+};
+
+
+export type DeviceRow = {
+  id: string;
+  name: string;
+  location_label: string | null;
+  lat: number | null;
+  lng: number | null;
+  channel_id: number | null;
+  read_api_key: string | null;
+  field_map: FieldMapping[] | null;
+  // Read-only: derived by the backend from the device's alert rules
+  salinity_high?: number | null;
+  battery_low?: number | null;
+};
+
+export type DeviceKey = {
+  id: number;
+  device_id: string;
+  key_prefix: string;
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  key?: string; // plain key, only present right after issue / rotate
+};
+
+export type Webhook = {
+  id: number;
+  device_id: string | null; // null = all devices
+  url: string;
+  description: string | null;
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  secret?: string; // signing secret, only present right after create / rotation
+};
+
+export type WebhookDelivery = {
+  id: number;
+  webhook_id: number;
+  alert_id: number | null;
+  event: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+export type TemplateSeverity = "any" | "warning" | "critical";
+
+export type EmailTemplate = {
+  id?: number; // missing for built-in templates
+  language: string;
+  severity: TemplateSeverity; // any = fallback for the language
+  subject: string;
+  html: string;
+  text: string | null; // null = generated from the HTML
+  updated_by?: string | null;
+  updated_at?: string;
+};
+
+export type RenderedEmail = { subject: string; html: string; text: string };
+
+export type SmtpConfig = {
+  configured: boolean;
+  missing: string[]; // unset SMTP_* variables
+  host: string | null;
+  port: number | null;
+  tls_mode: "smtps" | "starttls" | "none";
+  user: string | null;
+  password_set: boolean;
+  from: string | null;
+};
+
+export type SmtpStage = { stage: string; ok: boolean; ms: number; detail: string };
+
+export type NotificationDiagnostics = {
+  smtp: SmtpConfig;
+  email_outbox: {
+    pending: number;
+    retrying: number;
+    failed: number;
+    sent_24h: number;
+    last_sent_at: string | null;
+    last_failure: { id: number; to_addr: string; subject: string; status: string; last_error: string; created_at: string } | null;
+  };
+  webhooks: { pending: number; failed: number; delivered_24h: number };
+};
+
+export type MaintenanceWindow = {
+  id: number;
+  device_id: string;
+  starts_at: string;
+  ends_at: string;
+  reason: string | null;
+  alert_types: string[] | null; // null = all alert types muted
+  created_by: string | null;
+  created_at: string;
+};
+
+export type MaintenanceWindowInput = {
+  starts_at?: string; // default now
+  ends_at?: string;
+  duration_minutes?: number; // instead of ends_at
+  reason?: string;
+  alert_types?: string[] | null;
+};
+
+export type AggregateBucket = "15m" | "1h" | "6h" | "1d" | "1w";
+
+export type MetricStats = { min: number | null; max: number | null; avg: number | null; count: number };
+
+// Stats of every catalog metric under its key (salinity, ph, ...)
+export type ReadingBucket = {
+  device_id: string;
+  bucket: string; // bucket start
+  count: number;
+  [metric: string]: MetricStats | string | number;
+};
+
+function toDevice(r: DeviceRow): Device {
+  return {
+    id: r.id,
+    name: r.name,
+    locationLabel: r.location_label || r.name,
+    lat: r.lat ?? 0,
+    lng: r.lng ?? 0,
+    channelId: r.channel_id ?? 0,
+    apiKeyRead: r.read_api_key || "",
+    fieldMap: r.field_map || [],
+    thresholds: {
+      salinityHigh: r.salinity_high ?? null,
+      batteryLow: r.battery_low ?? null
+    }
+  };
+}
+
+function toDeviceRow(d: Device): DeviceRow {
+  return {
+    id: d.id,
+    name: d.name,
+    location_label: d.locationLabel,
+    lat: d.lat,
+    lng: d.lng,
+    channel_id: d.channelId,
+    read_api_key: d.apiKeyRead || null,
+    field_map: d.fieldMap?.length ? d.fieldMap : null
+  };
+}
+
+export type AuthUser = {
+  id: number;
+  username: string;
+  role: "admin" | "viewer";
 };
 
 // Same-origin API (works on Render single-service deployment)
 const api = axios.create({ baseURL: "/" });
 
+export function setAuthToken(token: string | null) {
+  if (token) {
+    api.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    delete api.defaults.headers.common.Authorization;
+  }
+}
+
+// Called when the backend rejects the session (expired / revoked token)
+export function onUnauthorized(handler: () => void) {
+  const id = api.interceptors.response.use(undefined, (err) => {
+    if (err?.response?.status === 401) handler();
+    return Promise.reject(err);
+  });
+  return () => api.interceptors.response.eject(id);
+}
+
+export async function login(username: string, password: string) {
+  const { data } = await api.post<{ token: string; user: AuthUser }>(`/api/auth/login`, { username, password });
+  return data;
+}
+
+export async function fetchMe() {
+  const { data } = await api.get<{ user: AuthUser }>(`/api/auth/me`);
+  return data.user;
+}
+
 export async function fetchAlertSettings(deviceId: string) {
   const { data } = await api.get<AlertSettings>(`/api/alerts/settings/${deviceId}`);
   return data;
@@ -40,6 +258,32 @@ export async function saveAlertSettings(deviceId: string, payload: Partial<Alert
   return data;
 }
 
+export async function previewDigest(deviceId: string, period: "daily" | "weekly") {
+  const { data } = await api.get<{ subject: string; html: string }>(`/api/alerts/digest/preview`, {
+    params: { device_id: deviceId, period }
+  });
+  return data;
+}
+
+export async function fetchAlertRules(deviceId: string) {
+  const { data } = await api.get<AlertRule[]>(`/api/alerts/rules`, { params: { device_id: deviceId } });
+  return data;
+}
+
+export async function createAlertRule(rule: AlertRule) {
+  const { data } = await api.post<AlertRule>(`/api/alerts/rules`, rule);
+  return data;
+}
+
+export async function updateAlertRule(rule: AlertRule) {
+  const { data } = await api.put<AlertRule>(`/api/alerts/rules/${rule.id}`, rule);
+  return data;
+}
+
+export async function deleteAlertRule(id: string) {
+  await api.delete(`/api/alerts/rules/${id}`);
+}
+
 export async function fetchAlerts(deviceId?: string, limit = 50) {
   const { data } = await api.get<AlertRow[]>(`/api/alerts`, {
     params: { device_id: deviceId, limit }
@@ -47,14 +291,183 @@ export async function fetchAlerts(deviceId?: string, limit = 50) {
   return data;
 }
 
+export async function acknowledgeAlert(id: number) {
+  const { data } = await api.post<AlertRow>(`/api/alerts/${id}/acknowledge`);
+  return data;
+}
+
+export async function resolveAlert(id: number) {
+  const { data } = await api.post<AlertRow>(`/api/alerts/${id}/resolve`);
+  return data;
+}
+
+// Metric values by catalog key; null = not reported: the backend skips that metric's rules
 export async function evaluateReading(payload: {
   device_id: string;
   createdAt?: string;
-  salinity?: number;
-  ph?: number;
-  temperature?: number;
-  battery?: number;
+  [metric: string]: number | null | string | undefined;
 }) {
   const { data } = await api.post(`/api/alerts/evaluate`, payload);
   return data;
 }
+
+export async function fetchDevices() {
+  const { data } = await api.get<DeviceRow[]>(`/api/devices`);
+  return data.map(toDevice);
+}
+
+export async function createDevice(d: Device) {
+  const { data } = await api.post<DeviceRow>(`/api/devices`, toDeviceRow(d));
+  return toDevice(data);
+}
+
+export async function updateDevice(d: Device) {
+  const { data } = await api.put<DeviceRow>(`/api/devices/${d.id}`, toDeviceRow(d));
+  return toDevice(data);
+}
+
+export async function deleteDevice(id: string) {
+  await api.delete(`/api/devices/${id}`);
+}
+
+export async function fetchDeviceKeys(deviceId: string) {
+  const { data } = await api.get<DeviceKey[]>(`/api/devices/${deviceId}/keys`);
+  return data;
+}
+
+export async function issueDeviceKey(deviceId: string, label: string) {
+  const { data } = await api.post<DeviceKey>(`/api/devices/${deviceId}/keys`, { label });
+  return data;
+}
+
+export async function rotateDeviceKey(deviceId: string, keyId: number) {
+  const { data } = await api.post<DeviceKey>(`/api/devices/${deviceId}/keys/${keyId}/rotate`);
+  return data;
+}
+
+export async function revokeDeviceKey(deviceId: string, keyId: number) {
+  const { data } = await api.delete<DeviceKey>(`/api/devices/${deviceId}/keys/${keyId}`);
+  return data;
+}
+
+export async function fetchWebhooks() {
+  const { data } = await api.get<Webhook[]>(`/api/webhooks`);
+  return data;
+}
+
+export async function createWebhook(payload: { url: string; device_id: string | null; description: string }) {
+  const { data } = await api.post<Webhook>(`/api/webhooks`, payload);
+  return data;
+}
+
+export async function updateWebhook(w: Webhook, rotateSecret = false) {
+  const { data } = await api.put<Webhook>(`/api/webhooks/${w.id}`, { ...w, rotate_secret: rotateSecret });
+  return data;
+}
+
+export async function deleteWebhook(id: number) {
+  await api.delete(`/api/webhooks/${id}`);
+}
+
+export async function testWebhook(id: number) {
+  const { data } = await api.post<WebhookDelivery>(`/api/webhooks/${id}/test`);
+  return data;
+}
+
+export async function fetchWebhookDeliveries(id: number, limit = 20) {
+  const { data } = await api.get<WebhookDelivery[]>(`/api/webhooks/${id}/deliveries`, { params: { limit } });
+  return data;
+}
+
+export async function retryWebhookDelivery(id: number, deliveryId: number) {
+  const { data } = await api.post<WebhookDelivery>(`/api/webhooks/${id}/deliveries/${deliveryId}/retry`);
+  return data;
+}
+
+export async function fetchEmailTemplates() {
+  const { data } = await api.get<EmailTemplate[]>(`/api/email-templates`);
+  return data;
+}
+
+export async function fetchEmailTemplateDefaults() {
+  const { data } = await api.get<{ placeholders: Record<string, string>; templates: EmailTemplate[] }>(
+    `/api/email-templates/defaults`
+  );
+  return data;
+}
+
+export async function saveEmailTemplate(t: EmailTemplate) {
+  const { data } = await api.put<EmailTemplate>(`/api/email-templates/${t.language}/${t.severity}`, t);
+  return data;
+}
+
+export async function deleteEmailTemplate(language: string, severity: TemplateSeverity) {
+  await api.delete(`/api/email-templates/${language}/${severity}`);
+}
+
+export async function previewEmailTemplate(t: EmailTemplate, deviceId?: string) {
+  const { data } = await api.post<RenderedEmail>(`/api/email-templates/preview`, { ...t, device_id: deviceId });
+  return data;
+}
+
+export async function sendTestEmailTemplate(t: EmailTemplate, to: string, deviceId?: string) {
+  const { data } = await api.post<{ ok: boolean; to: string; subject: string }>(`/api/email-templates/test`, {
+    ...t,
+    to,
+    device_id: deviceId
+  });
+  return data;
+}
+
+export async function fetchNotificationDiagnostics() {
+  const { data } = await api.get<NotificationDiagnostics>(`/api/notifications/diagnostics`);
+  return data;
+}
+
+export async function sendSmtpTestEmail(to: string) {
+  const { data } = await api.post<{ ok: boolean; error: string | null; to: string; smtp: SmtpConfig; stages: SmtpStage[] }>(
+    `/api/notifications/test-email`,
+    { to }
+  );
+  return data;
+}
+
+export async function fetchMaintenanceWindows(deviceId: string, from?: string) {
+  const { data } = await api.get<MaintenanceWindow[]>(`/api/devices/${deviceId}/maintenance`, { params: { from } });
+  return data;
+}
+
+export async function createMaintenanceWindow(deviceId: string, payload: MaintenanceWindowInput) {
+  const { data } = await api.post<MaintenanceWindow>(`/api/devices/${deviceId}/maintenance`, payload);
+  return data;
+}
+
+export async function updateMaintenanceWindow(w: MaintenanceWindow) {
+  const { data } = await api.put<MaintenanceWindow>(`/api/devices/${w.device_id}/maintenance/${w.id}`, w);
+  return data;
+}
+
+export async function deleteMaintenanceWindow(w: MaintenanceWindow) {
+  await api.delete(`/api/devices/${w.device_id}/maintenance/${w.id}`);
+}
+
+export async function fetchMetricCatalog() {
+  const { data } = await api.get<MetricDef[]>(`/api/readings/metrics`);
+  return data;
+}
+
+export async function fetchReadingsAggregate(deviceId: string, from: string, bucket: AggregateBucket) {
+  const { data } = await api.get<{ data: ReadingBucket[] }>(`/api/readings/aggregate`, {
+    params: { device_id: deviceId, from, bucket }
+  });
+  return data.data;
+}
+
+// Exports are public GETs: plain links let the browser download them directly
+export function readingsExportUrl(deviceId: string, from: string, bucket?: AggregateBucket | null) {
+  return api.getUri({ url: "/api/readings/export", params: { device_id: deviceId, from, bucket: bucket || undefined } });
+}
+
+export function alertsExportUrl(deviceId: string) {
+  return api.getUri({ url: "/api/alerts/export", params: { device_id: deviceId } });
+}
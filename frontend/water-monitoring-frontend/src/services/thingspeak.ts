@@ -1,24 +1,41 @@
 import axios from "axios";
-import { LatestReading } from "../types/device";
+import { FieldMapping, LatestReading, MetricDef } from "../types/device";
+import { DEFAULT_FIELD_MAP } from "../data/metrics";
+import { readingQuality } from "../utils/reading";
+
+type FeedEntry = { created_at: string } & Record<string, string | undefined>; // field1..field8
 
 type FeedResponse = {
-  feeds: Array<{
-    created_at: string;
-    field1?: string; // salinity
-    field2?: string; // ph
-    field3?: string; // temp
-    field4?: string; // battery
-  }>;
+  feeds: FeedEntry[];
 };
 
 const BASE = "https://api.thingspeak.com";
 
-function parseNumber(v: string | undefined, fallback: number) {
-  const n = v ? Number(v) : NaN;
-  return Number.isFinite(n) ? n : fallback;
+// Empty or non-numeric fields are null, never a made-up value
+function parseNumber(v: string | undefined) {
+  const n = v && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+// One value per mapped metric; outside the catalog's valid range = null (as the backend sync stores it)
+function toReading(f: FeedEntry, fieldMap: FieldMapping[], metrics: MetricDef[]): LatestReading {
+  const values: Record<string, number | null> = {};
+  for (const m of fieldMap.length ? fieldMap : DEFAULT_FIELD_MAP) {
+    const raw = parseNumber(f[`field${m.field}`]);
+    const v = raw === null ? null : raw * m.scale + m.offset;
+    const def = metrics.find((d) => d.key === m.metric);
+    values[m.metric] = v !== null && def && (v < def.min || v > def.max) ? null : v;
+  }
+  return { createdAt: f.created_at, values, quality: readingQuality(values) };
 }
 
-export async function fetchLatestReading(channelId: number, apiKeyRead: string, results = 1) {
+export async function fetchLatestReading(
+  channelId: number,
+  apiKeyRead: string,
+  results = 1,
+  fieldMap: FieldMapping[] = [],
+  metrics: MetricDef[] = []
+) {
   const url = `${BASE}/channels/${channelId}/feeds.json`;
   const { data } = await axios.get<FeedResponse>(url, {
     params: { api_key: apiKeyRead, results }
@@ -27,30 +44,20 @@ export async function fetchLatestReading(channelId: number, apiKeyRead: string,
   const last = data.feeds?.[data.feeds.length - 1];
   if (!last) return null;
 
-  const reading: LatestReading = {
-    createdAt: last.created_at,
-    salinity: parseNumber(last.field1, 15.8),
-    ph: parseNumber(last.field2, 7.2),
-    temperature: parseNumber(last.field3, 28.5),
-    battery: parseNumber(last.field4, 15)
-  };
-
-  return reading;
+  return toReading(last, fieldMap, metrics);
 }
 
-export async function fetchRecentReadings(channelId: number, apiKeyRead: string, results = 20) {
+export async function fetchRecentReadings(
+  channelId: number,
+  apiKeyRead: string,
+  results = 20,
+  fieldMap: FieldMapping[] = [],
+  metrics: MetricDef[] = []
+) {
   const url = `${BASE}/channels/${channelId}/feeds.json`;
   const { data } = await axios.get<FeedResponse>(url, {
     params: { api_key: apiKeyRead, results }
   });
 
-  return (data.feeds || [])
-    .filter(Boolean)
-    .map((f) => ({
-      createdAt: f.created_at,
-      salinity: parseNumber(f.field1, 0),
-      ph: parseNumber(f.field2, 0),
-      temperature: parseNumber(f.field3, 0),
-      battery: parseNumber(f.field4, 0)
-    }));
+  return (data.feeds || []).filter(Boolean).map((f) => toReading(f, fieldMap, metrics));
 }
@@ -1,5 +1,23 @@
 export type DeviceStatus = "active" | "offline" | "low_battery" | "high_salinity";
 
+// Entry of the backend metric catalog (GET /api/readings/metrics)
+export type MetricDef = {
+  key: string; // e.g. salinity, dissolved_oxygen
+  name: string;
+  unit: string;
+  precision: number; // decimals shown
+  min: number; // valid range
+  max: number;
+};
+
+// ThingSpeak field (1..8) holding a metric; value = raw * scale + offset
+export type FieldMapping = {
+  field: number;
+  metric: string; // catalog key
+  scale: number;
+  offset: number;
+};
+
 export type Device = {
   id: string;
   name: string;
@@ -8,21 +26,26 @@ export type Device = {
   lng: number;
   channelId: number;
   apiKeyRead?: string;
+  fieldMap?: FieldMapping[]; // empty = field1..4
+  // Status thresholds, from the device's alert rules (null = no such rule)
   thresholds: {
-    salinityHigh: number;
-    batteryLow: number;
+    salinityHigh: number | null;
+    batteryLow: number | null;
   };
 };
 
+// ok = every metric reported, partial = some missing, missing = no usable value (e.g. dead probe)
+export type DataQuality = "ok" | "partial" | "missing";
+
+// Values by catalog key of the metrics the device reports; null when the field was empty,
+// not numeric or outside the valid range (never substituted)
 export type LatestReading = {
   createdAt: string;
-  salinity: number;      // ppt
-  ph: number;            // pH
-  temperature: number;   // °C
-  battery: number;       // %
+  values: Record<string, number | null>;
+  quality: DataQuality;
 };
 
 export type DeviceComputed = {
   status: DeviceStatus;
-  latest: LatestReading;
+  latest: LatestReading | null;
 };
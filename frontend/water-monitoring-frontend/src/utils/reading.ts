@@ -0,0 +1,41 @@
+import { DEFAULT_FIELD_MAP } from "../data/metrics";
+import { DataQuality, Device, MetricDef } from "../types/device";
+
+/** "ok" when every reported metric has a value, "partial" when some are null, "missing" when all are. */
+export function readingQuality(values: Record<string, number | null>): DataQuality {
+  const all = Object.values(values);
+  const present = all.filter((v) => v !== null).length;
+  if (present === all.length) return "ok";
+  return present ? "partial" : "missing";
+}
+
+/** Display value of a metric, null when it was not reported (shown as "—"). */
+export function formatMetric(v: number | null | undefined, digits = 1) {
+  return v === null || v === undefined ? null : v.toFixed(digits);
+}
+
+/** "12.5 ppt", "28.1°C", or "—". */
+export function formatWithUnit(v: number | null | undefined, m: MetricDef) {
+  const s = formatMetric(v, m.precision);
+  if (s === null) return "—";
+  return !m.unit || /^[%°]/.test(m.unit) ? `${s}${m.unit}` : `${s} ${m.unit}`;
+}
+
+/** Catalog entries of the metrics a device reports (its field mapping), in catalog order. */
+export function deviceMetrics(device: Device | null, metrics: MetricDef[]) {
+  const map = device?.fieldMap?.length ? device.fieldMap : DEFAULT_FIELD_MAP;
+  return metrics.filter((m) => map.some((f) => f.metric === m.key));
+}
+
+/** Metrics reported by at least one of the devices (table columns of the fleet overview). */
+export function fleetMetrics(devices: Device[], metrics: MetricDef[]) {
+  return metrics.filter((m) => devices.some((d) => deviceMetrics(d, [m]).length));
+}
+
+export function qualityNote(quality: DataQuality) {
+  return quality === "missing"
+    ? "The latest reading has no sensor values (probe or logger fault?)."
+    : quality === "partial"
+    ? "Some sensor fields are missing in the latest reading."
+    : null;
+}
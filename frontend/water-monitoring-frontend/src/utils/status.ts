@@ -2,15 +2,19 @@ import { Device, DeviceComputed, DeviceStatus, LatestReading } from "../types/de
 
 /**
  * Status rules (simple + readable):
- * - offline: no latest reading (or backend can mark offline)
- * - low_battery: battery <= threshold
- * - high_salinity: salinity >= threshold
+ * - offline: no latest reading, or one without any sensor value (or backend can mark offline)
+ * - low_battery: battery below the device's battery_low threshold
+ * - high_salinity: salinity above the device's salinity_high threshold
  * - active: normal
+ * Thresholds come from the device's alert rules (see services/backend.ts). A metric that was not
+ * reported (null), or without a rule, never triggers its status.
  */
-export function computeStatus(device: Device, latest: LatestReading): DeviceStatus {
-  if (!latest) return "offline";
-  if (latest.battery <= device.thresholds.batteryLow) return "low_battery";
-  if (latest.salinity >= device.thresholds.salinityHigh) return "high_salinity";
+export function computeStatus(device: Device, latest: LatestReading | null): DeviceStatus {
+  if (!latest || latest.quality === "missing") return "offline";
+  const { battery, salinity } = latest.values;
+  const { batteryLow, salinityHigh } = device.thresholds;
+  if (battery != null && batteryLow != null && battery < batteryLow) return "low_battery";
+  if (salinity != null && salinityHigh != null && salinity > salinityHigh) return "high_salinity";
   return "active";
 }
 
@@ -62,6 +66,6 @@ export function statusLabel(status: DeviceStatus) {
   }
 }
 
-export function mergeDeviceComputed(device: Device, latest: LatestReading): DeviceComputed {
+export function mergeDeviceComputed(device: Device, latest: LatestReading | null): DeviceComputed {
   return { status: computeStatus(device, latest), latest };
 }